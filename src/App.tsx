@@ -4,203 +4,175 @@
 
 import * as go from 'gojs';
 
-import { useEffect, useState, useCallback } from 'react';
-import { useImmer } from 'use-immer';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 
+import { CollabMessage } from './collab/collabSession';
+import { defaultKeyBindings } from './commands/editorCommands';
+import { colorForClient, createTransportPresenceFeed } from './collab/presence';
+import { CollabTransport, createBroadcastChannelTransport, createWebSocketTransport } from './collab/transport';
+import { AlignmentToolbar } from './components/AlignmentToolbar';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { CollabStatus } from './components/CollabStatus';
+import { CommandPalette } from './components/CommandPalette';
+import { CommandToolbar } from './components/CommandToolbar';
+import { DiagramFileControls, DiagramFileFormat } from './components/DiagramFileControls';
 import { DiagramWrapper } from './components/DiagramWrapper';
+import { ImageExportControls } from './components/ImageExportControls';
+import { LayoutPicker } from './components/LayoutPicker';
+import { PaletteWrapper } from './components/PaletteWrapper';
+import { LocalSnapshots, RestorePrompt } from './components/LocalSnapshots';
+import { RepositoryPanel } from './components/RepositoryPanel';
+import { SearchPanel } from './components/SearchPanel';
 import { SelectionInspector } from './components/SelectionInspector';
+import { PropertyValue } from './components/PropertyEditors';
+import { RuleViolationList } from './components/RuleViolationList';
+import { SchemaViolationList } from './components/SchemaViolationList';
+import { UndoHistoryPanel } from './components/UndoHistoryPanel';
+import { useAutosave } from './hooks/useAutosave';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useDiagramSearch } from './hooks/useDiagramSearch';
+import { useGraphAnalysis } from './hooks/useGraphAnalysis';
+import { usePresence } from './hooks/usePresence';
+import { useRuleEnforcement } from './hooks/useRuleEnforcement';
+import { useSchemaEnforcement } from './hooks/useSchemaEnforcement';
+import { useDiagramRepository } from './hooks/useDiagramRepository';
+import { DiagramContents, DiagramData, SelectedData, useGoModelState } from './hooks/useGoModelState';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { commitDataChanges } from './model/dataEdits';
+import { diagramRules, LinkData, linkSchema, NodeData, nodeSchema } from './model/diagramSchema';
+import { uuidKeyStrategy } from './model/keys';
+import { changeLayout, LayoutSettings, normalizeLayoutSettings } from './model/layouts';
+import { sampleDiagram } from './model/sampleDiagram';
+import { parseDiagramFile, serializeDiagram } from './persistence/diagramFile';
+import { parseDot, serializeDot } from './persistence/dotFormat';
+import { createRestDiagramRepository } from './persistence/diagramRepository';
+import { createLocalDiagramStore, StoredDiagram } from './persistence/localDiagramStore';
+import { parseMermaid, serializeMermaid } from './persistence/mermaidFormat';
+import { createMockDiagramServer } from './persistence/mockDiagramServer';
+import { defaultCategoryRegistry, schemaForAnyCategory, schemaForCategory } from './templates/categoryRegistry';
+import { downloadText } from './utils/download';
 
 import './App.css';
 
-/**
- * Use a linkDataArray since we'll be using a GraphLinksModel,
- * and modelData for demonstration purposes. Note, though, that
- * both are optional props in ReactDiagram.
- */
-export type DiagramData = {
-  nodeDataArray: Array<go.ObjectData>;
-  linkDataArray: Array<go.ObjectData>;
-  modelData: go.ObjectData;
-  selectedData: go.ObjectData | null;
-  skipsDiagramUpdate: boolean;
-}
+// whole diagrams are checked without regard to each node's category, so any category's fields are allowed
+const anyNodeSchema = schemaForAnyCategory(defaultCategoryRegistry, nodeSchema);
 
 export function App() {
-  // Maps to store key -> arr index for quick lookups
-  const [mapNodeKeyIdx, setMapNodeKeyIdx] = useState<Map<go.Key, number>>(new Map<go.Key, number>());
-  const [mapLinkKeyIdx, setMapLinkKeyIdx] = useState<Map<go.Key, number>>(new Map<go.Key, number>());
-
-  const [diagram, updateDiagram] = useImmer<DiagramData>({
-      nodeDataArray: [
-        { key: 0, text: 'Alpha', color: 'lightblue', loc: '0 0' },
-        { key: 1, text: 'Beta', color: 'orange', loc: '150 0' },
-        { key: 2, text: 'Gamma', color: 'lightgreen', loc: '0 150' },
-        { key: 3, text: 'Delta', color: 'pink', loc: '150 150' }
-      ],
-      linkDataArray: [
-        { key: -1, from: 0, to: 1 },
-        { key: -2, from: 0, to: 2 },
-        { key: -3, from: 1, to: 1 },
-        { key: -4, from: 2, to: 3 },
-        { key: -5, from: 3, to: 0 }
-      ],
-      modelData: {
-        canRelink: true
-      },
-      selectedData: null,
+  const {
+    diagram,
+    updateDiagram,
+    handleModelChange,
+    checkSelectionUpdate,
+    replaceDiagram,
+    setSelection,
+    schemaViolations,
+    clearSchemaViolations,
+    ruleViolations
+  } = useGoModelState<NodeData, LinkData>({
+      nodeDataArray: [],
+      linkDataArray: [],
+      modelData: {},
+      selectedData: [],
       skipsDiagramUpdate: false
-  });
+  }, { nodeSchema: anyNodeSchema, linkSchema, rules: diagramRules });
 
   const [inspector, setInspector] = useState<JSX.Element>();
+  const [fileError, setFileError] = useState<string | null>(null);
 
-  /**
-   * Update map of node keys to their index in the array.
-   */
-  const refreshNodeIndex = useCallback((nodeArr: Array<go.ObjectData>) => {
-    const newMapNodeKeyIdx: Map<go.Key, number> = new Map<go.Key, number>();
-    nodeArr.forEach((n: go.ObjectData, idx: number) => {
-      newMapNodeKeyIdx.set(n.key, idx);
-    });
-    setMapNodeKeyIdx(newMapNodeKeyIdx);
+  // autosave is held back until the user decides whether to restore the previous one
+  const localStore = useMemo(() => createLocalDiagramStore(window.localStorage), []);
+  const [unsavedDiagram, setUnsavedDiagram] = useState<StoredDiagram | null>(() => localStore.loadAutosave());
+  const autosave = useAutosave(localStore, diagram, unsavedDiagram === null);
+  const { markSaved } = autosave;
+
+  // diagrams opened from the server or a file are not the user's work, so they aren't autosaved
+  const loadDiagram = useCallback((contents: DiagramContents<NodeData, LinkData>) => {
+    replaceDiagram(contents);
+    markSaved();
+  }, [replaceDiagram, markSaved]);
+  const handleServerSave = useCallback(() => {
+    localStore.clearAutosave();
+    markSaved();
+  }, [localStore, markSaved]);
+
+  // set REACT_APP_DIAGRAM_API to the URL of a diagram service, otherwise an in-process mock server is used
+  const repository = useMemo(() => {
+    const apiUrl = process.env.REACT_APP_DIAGRAM_API;
+    if (apiUrl) return createRestDiagramRepository<NodeData, LinkData>(apiUrl, undefined, anyNodeSchema, linkSchema);
+    const mockServer = createMockDiagramServer('/api', { sample: sampleDiagram }, 300);
+    return createRestDiagramRepository<NodeData, LinkData>('/api', mockServer, anyNodeSchema, linkSchema);
   }, []);
+  // the sample is only opened on mount if there's no unsaved diagram to restore, and otherwise once it is discarded
+  const [initialId] = useState<string | undefined>(() => unsavedDiagram === null ? 'sample' : undefined);
+  const repo = useDiagramRepository(repository, diagram, loadDiagram, initialId, handleServerSave);
+
+  // set REACT_APP_COLLAB_URL to a WebSocket relay, otherwise other tabs in this browser are collaborators
+  const [goDiagram, setGoDiagram] = useState<go.Diagram | null>(null);
+  const [clientId] = useState<string>(() => Math.random().toString(36).substring(2, 8));
+  const [transport, setTransport] = useState<CollabTransport<CollabMessage> | null>(null);
+  useEffect(() => {
+    const collabUrl = process.env.REACT_APP_COLLAB_URL;
+    let t: CollabTransport<CollabMessage> | null = null;
+    if (collabUrl) t = createWebSocketTransport<CollabMessage>(collabUrl);
+    else if (typeof BroadcastChannel !== 'undefined') t = createBroadcastChannelTransport<CollabMessage>('gojs-diagram-collab');
+    setTransport(t);
+    return () => {
+      if (t) t.close();
+    };
+  }, []);
+  const collab = useCollaboration(goDiagram, transport, clientId, handleModelChange);
+  const presenceFeed = useMemo(() => transport === null ? null : createTransportPresenceFeed(transport), [transport]);
+  useEffect(() => {
+    return () => {
+      if (presenceFeed) presenceFeed.close();
+    };
+  }, [presenceFeed]);
+  const presence = usePresence(goDiagram, presenceFeed, { clientId, name: clientId, color: colorForClient(clientId) });
+  const undoHistory = useUndoHistory(goDiagram);
+  const search = useDiagramSearch(goDiagram, diagram);
+  const analysis = useGraphAnalysis(goDiagram, diagram);
+  useSchemaEnforcement(goDiagram, anyNodeSchema, linkSchema);
+  const [enforceRules, setEnforceRules] = useState<boolean>(false);
+  const enforcement = useRuleEnforcement(goDiagram, diagramRules, enforceRules);
+  const [paletteOpen, setPaletteOpen] = useState<boolean>(false);
 
   /**
-   * Update map of link keys to their index in the array.
+   * Keep React state in sync with the GoJS model, and share local changes with collaborators
+   * and queue them to be saved to the server. Changes breaking the schemas are kept to this diagram
+   * while they are rolled back. Remote changes don't come through here: useCollaboration hands them
+   * straight to handleModelChange, since their author shares and saves them.
+   * @param obj the changes from the GoJS model
    */
-  const refreshLinkIndex = useCallback((linkArr: Array<go.ObjectData>) => {
-    const newMapLinkKeyIdx: Map<go.Key, number> = new Map<go.Key, number>();
-    linkArr.forEach((l: go.ObjectData, idx: number) => {
-      newMapLinkKeyIdx.set(l.key, idx);
-    });
-    setMapLinkKeyIdx(newMapLinkKeyIdx);
-  }, []);
+  const handleDiagramModelChange = (obj: go.IncrementalData) => {
+    if (!handleModelChange(obj) || collab.isApplyingRemote()) return;
+    repo.recordChanges(obj);
+    collab.broadcast(obj);
+  };
 
   /**
    * Handle any relevant DiagramEvents, in this case just selection changes.
-   * On ChangedSelection, find the corresponding data and set the selectedData state.
+   * On ChangedSelection, find the corresponding data for every selected part and set the selectedData state.
    * @param e a GoJS DiagramEvent
    */
   const handleDiagramEvent = (e: go.DiagramEvent) => {
     const name = e.name;
     switch (name) {
       case 'ChangedSelection': {
-        const sel = e.subject.first();
-        updateDiagram((draft: DiagramData) => {
-            if (sel) {
-              if (sel instanceof go.Node) {
-                const idx = mapNodeKeyIdx.get(sel.key);
-                if (idx !== undefined && idx >= 0) {
-                  const nd = draft.nodeDataArray[idx];
-                  draft.selectedData = nd;
-                }
-              } else if (sel instanceof go.Link) {
-                const idx = mapLinkKeyIdx.get(sel.key);
-                if (idx !== undefined && idx >= 0) {
-                  const ld = draft.linkDataArray[idx];
-                  draft.selectedData = ld;
-                }
-              }
-            } else {
-              draft.selectedData = null;
-            }
-      });
-      break;
-      }
-      default: break;
-    }
-  };
-
-  /**
-   * Handle GoJS model changes, which output an object of data changes via Model.toIncrementalData.
-   * This method iterates over those changes and updates state to keep in sync with the GoJS model.
-   * @param obj a JSON-formatted string
-   */
-  const handleModelChange = (obj: go.IncrementalData) => {
-    const insertedNodeKeys = obj.insertedNodeKeys;
-    const modifiedNodeData = obj.modifiedNodeData;
-    const removedNodeKeys = obj.removedNodeKeys;
-    const insertedLinkKeys = obj.insertedLinkKeys;
-    const modifiedLinkData = obj.modifiedLinkData;
-    const removedLinkKeys = obj.removedLinkKeys;
-    const modifiedModelData = obj.modelData;
-
-    // maintain maps of modified data so insertions don't need slow lookups
-    const modifiedNodeMap = new Map<go.Key, go.ObjectData>();
-    const modifiedLinkMap = new Map<go.Key, go.ObjectData>();
-    updateDiagram((draft: DiagramData) => {
-      let narr = draft.nodeDataArray;
-      if (modifiedNodeData) {
-        modifiedNodeData.forEach((nd: go.ObjectData) => {
-          modifiedNodeMap.set(nd.key, nd);
-          const idx = mapNodeKeyIdx.get(nd.key);
-          if (idx !== undefined && idx >= 0) {
-            narr[idx] = nd;
-            if (draft.selectedData && draft.selectedData.key === nd.key) {
-              draft.selectedData = nd;
-            }
-          }
-        });
-      }
-      if (insertedNodeKeys) {
-        insertedNodeKeys.forEach((key: go.Key) => {
-          const nd = modifiedNodeMap.get(key);
-          const idx = mapNodeKeyIdx.get(key);
-          if (nd && idx === undefined) {  // nodes won't be added if they already exist
-            mapNodeKeyIdx.set(nd.key, narr.length);
-            narr.push(nd);
-          }
-        });
-      }
-      if (removedNodeKeys) {
-        narr = narr.filter((nd: go.ObjectData) => {
-          if (removedNodeKeys.includes(nd.key)) {
-            return false;
-          }
-          return true;
-        });
-        draft.nodeDataArray = narr;
-        refreshNodeIndex(narr);
-      }
-
-      let larr = draft.linkDataArray;
-      if (modifiedLinkData) {
-        modifiedLinkData.forEach((ld: go.ObjectData) => {
-          modifiedLinkMap.set(ld.key, ld);
-          const idx = mapLinkKeyIdx.get(ld.key);
-          if (idx !== undefined && idx >= 0) {
-            larr[idx] = ld;
-            if (draft.selectedData && draft.selectedData.key === ld.key) {
-              draft.selectedData = ld;
-            }
-          }
-        });
-      }
-      if (insertedLinkKeys) {
-        insertedLinkKeys.forEach((key: go.Key) => {
-          const ld = modifiedLinkMap.get(key);
-          const idx = mapLinkKeyIdx.get(key);
-          if (ld && idx === undefined) {  // links won't be added if they already exist
-            mapLinkKeyIdx.set(ld.key, larr.length);
-            larr.push(ld);
+        const nodeKeys: Array<go.Key> = [];
+        const linkKeys: Array<go.Key> = [];
+        e.subject.each((sel: go.Part) => {
+          if (sel instanceof go.Node) {
+            nodeKeys.push(sel.key);
+          } else if (sel instanceof go.Link) {
+            linkKeys.push(sel.key);
           }
         });
+        setSelection(nodeKeys, linkKeys);
+        presence.publishSelection(nodeKeys, linkKeys);
+        break;
       }
-      if (removedLinkKeys) {
-        larr = larr.filter((ld: go.ObjectData) => {
-          if (removedLinkKeys.includes(ld.key)) {
-            return false;
-          }
-          return true;
-        });
-        draft.linkDataArray = larr;
-        refreshLinkIndex(larr);
-      }
-      // handle model data changes, for now just replacing with the supplied object
-      if (modifiedModelData) {
-        draft.modelData = modifiedModelData;
-      }
-      draft.skipsDiagramUpdate = true;  // the GoJS model already knows about these updates
-    });
+      default: break;
+    }
   };
 
   /**
@@ -216,52 +188,122 @@ export function App() {
     });
   };
 
-  useEffect(() => {
-    refreshNodeIndex(diagram.nodeDataArray);
-    refreshLinkIndex(diagram.linkDataArray);
-  }, [refreshNodeIndex, refreshLinkIndex, diagram.nodeDataArray, diagram.linkDataArray]);
+  /**
+   * Lay the diagram out with a different layout or parameters. This goes through the GoJS model
+   * so that the choice and the resulting node locations are undone together.
+   * @param settings the new layout
+   */
+  const handleLayoutChange = (settings: LayoutSettings) => {
+    if (goDiagram !== null) changeLayout(goDiagram, settings);
+  };
+
+  /**
+   * Download the current nodes, links and modelData as a file in the given format.
+   * Only JSON keeps everything, so only saving as JSON counts as saving the diagram.
+   */
+  const handleSave = (format: DiagramFileFormat) => {
+    if (format === 'dot') {
+      downloadText('diagram.dot', serializeDot(diagram), 'text/vnd.graphviz');
+    } else if (format === 'mermaid') {
+      downloadText('diagram.mmd', serializeMermaid(diagram), 'text/plain');
+    } else {
+      downloadText('diagram.json', serializeDiagram(diagram), 'application/json');
+      localStore.clearAutosave();
+      markSaved();
+    }
+  };
+
+  /**
+   * Validate the text of an opened file and, if it is a valid diagram, replace the current one with it.
+   * DOT and Mermaid files are checked against the same schemas as JSON ones once they are parsed.
+   * The diagram is then no longer the one open from the repository, so saving to the server needs a new name.
+   * @param text the contents of the file
+   * @param format the format of the file, JSON if not given
+   */
+  const handleLoad = (text: string, format: DiagramFileFormat = 'json') => {
+    try {
+      if (format === 'dot') text = serializeDiagram(parseDot(text));
+      else if (format === 'mermaid') text = serializeDiagram(parseMermaid(text));
+      loadDiagram(parseDiagramFile<NodeData, LinkData>(text, anyNodeSchema, linkSchema));
+      repo.detach();
+      setFileError(null);
+    } catch (ex) {
+      setFileError(ex.message);
+    }
+  };
+
+  const handleRestore = () => {
+    if (unsavedDiagram) handleLoad(unsavedDiagram.text);
+    setUnsavedDiagram(null);
+  };
+
+  const handleDiscard = () => {
+    localStore.clearAutosave();
+    setUnsavedDiagram(null);
+    repo.open('sample');
+  };
 
   // Handle selections
   useEffect(() => {
     /**
-     * Handle inspector changes, and on input field blurs, update node/link data state.
+     * Commit a change to every selected node/link as one named transaction in the GoJS model,
+     * so it can be undone like any edit made in the diagram. React state follows through onModelChange.
+     */
+    const commitSelectionChange = (changes: go.ObjectData, name: string) => {
+      if (goDiagram === null || !checkSelectionUpdate(changes)) return;
+      commitDataChanges(goDiagram, diagram.selectedData, changes, name);
+    };
+
+    /**
+     * Handle inspector changes, showing them in the inspector as they're typed,
+     * and on input field blurs, committing them to the data of every selected node/link.
      * @param path the path to the property being modified
      * @param value the new value of that property
      * @param isBlur whether the input event was a blur, indicating the edit is complete
      */
-    const handleInputChange = (path: string, value: string, isBlur: boolean) => {
-      updateDiagram((draft: DiagramData) => {
-        const data = draft.selectedData as go.ObjectData;  // only reached if selectedData isn't null
-        data[path] = value;
-        if (isBlur) {
-          const key = data.key;
-          if (key < 0) {  // negative keys are links
-            const idx = mapLinkKeyIdx.get(key);
-            if (idx !== undefined && idx >= 0) {
-              draft.linkDataArray[idx] = data;
-              draft.skipsDiagramUpdate = false;
-            }
-          } else {
-            const idx = mapNodeKeyIdx.get(key);
-            if (idx !== undefined && idx >= 0) {
-              draft.nodeDataArray[idx] = data;
-              draft.skipsDiagramUpdate = false;
-            }
-          }
-        }
-      });
+    const handleInputChange = (path: string, value: PropertyValue, isBlur: boolean) => {
+      if (!isBlur) {
+        updateDiagram((draft: DiagramData<NodeData, LinkData>) => {
+          draft.selectedData.forEach((sd: SelectedData<NodeData, LinkData>) => {
+            (sd.data as go.ObjectData)[path] = value;
+          });
+        });
+        return;
+      }
+      commitSelectionChange({ [path]: value }, `Edit ${path}`);
+    };
+
+    /**
+     * Handle removal of a property in the inspector. The property is set to undefined rather than deleted,
+     * which is how removed properties appear in React state.
+     * @param path the path to the property being removed
+     */
+    const handleRemoveProperty = (path: string) => {
+      commitSelectionChange({ [path]: undefined }, `Remove ${path}`);
     };
 
-    const selectedData = diagram.selectedData;
+    const selection = diagram.selectedData;
     let inspector;
-    if (selectedData !== null) {
+    if (selection.length > 0) {
+      // only offer schema-aware editors when the selection is all nodes or all links,
+      // and the category's own fields when the nodes are all of one category
+      let schema;
+      if (selection.every((sd: SelectedData<NodeData, LinkData>) => sd.kind === 'link')) {
+        schema = linkSchema;
+      } else if (selection.every((sd: SelectedData<NodeData, LinkData>) => sd.kind === 'node')) {
+        const category = (selection[0].data as NodeData).category || '';
+        const sameCategory = selection.every((sd: SelectedData<NodeData, LinkData>) => ((sd.data as NodeData).category || '') === category);
+        schema = sameCategory ? schemaForCategory(defaultCategoryRegistry, nodeSchema, category) : nodeSchema;
+      }
       inspector = <SelectionInspector
-                    selectedData={diagram.selectedData}
+                    selectedData={selection.map((sd: SelectedData<NodeData, LinkData>) => sd.data)}
+                    schema={schema}
                     onInputChange={handleInputChange}
+                    onRemoveProperty={handleRemoveProperty}
                   />;
       setInspector(inspector);
     }
-  }, [diagram.selectedData, mapLinkKeyIdx, mapNodeKeyIdx, updateDiagram]);
+  }, [diagram.selectedData, updateDiagram, goDiagram, checkSelectionUpdate]);
 
   return (
     <div>
@@ -274,20 +316,92 @@ export function App() {
       <p>
         Check out the <a href='https://gojs.net/latest/intro/react.html' target='_blank' rel='noopener noreferrer'>Intro page on using GoJS with React</a> for more information.
       </p>
-      <DiagramWrapper
-        diagramData={diagram}
-        onDiagramEvent={handleDiagramEvent}
-        onModelChange={handleModelChange}
+      {unsavedDiagram &&
+        <RestorePrompt
+          autosave={unsavedDiagram}
+          onRestore={handleRestore}
+          onDiscard={handleDiscard}
+        />}
+      <RepositoryPanel repo={repo} />
+      <DiagramFileControls
+        error={fileError || autosave.error}
+        onSave={handleSave}
+        onLoad={handleLoad}
+      />
+      <CommandToolbar
+        diagram={goDiagram}
+        keyBindings={defaultKeyBindings}
+        commands={['create-node', 'connect', 'layout', 'zoom-fit', 'export']}
+        onOpenPalette={() => setPaletteOpen(true)}
       />
+      <AlignmentToolbar diagram={goDiagram} keyBindings={defaultKeyBindings} />
+      <CommandPalette
+        diagram={goDiagram}
+        keyBindings={defaultKeyBindings}
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+      />
+      {/* keys are UUIDs since collaborators may add nodes at the same time */}
+      <div className='diagram-area'>
+        <PaletteWrapper categories={defaultCategoryRegistry} />
+        <DiagramWrapper
+          diagramData={diagram}
+          categories={defaultCategoryRegistry}
+          keyStrategy={uuidKeyStrategy}
+          ruleViolations={ruleViolations}
+          keyBindings={defaultKeyBindings}
+          onDiagramEvent={handleDiagramEvent}
+          onModelChange={handleDiagramModelChange}
+          onDiagramChange={setGoDiagram}
+        />
+        <SearchPanel search={search} />
+      </div>
       <label>
         Allow Relinking?
         <input
           type='checkbox'
           id='relink'
-          checked={diagram.modelData.canRelink}
+          checked={diagram.modelData.canRelink === true}
           onChange={handleRelinkChange} />
       </label>
+      <LayoutPicker
+        settings={normalizeLayoutSettings(diagram.modelData.layout)}
+        disabled={goDiagram === null}
+        onChange={handleLayoutChange}
+      />
+      <AnalysisPanel
+        analysis={analysis}
+        selectedNodes={diagram.selectedData
+          .filter((sd: SelectedData<NodeData, LinkData>) => sd.kind === 'node')
+          .map((sd: SelectedData<NodeData, LinkData>) => sd.data.key)}
+      />
+      <ImageExportControls diagram={goDiagram} />
+      <UndoHistoryPanel history={undoHistory} />
       {inspector}
+      <LocalSnapshots
+        store={localStore}
+        getCurrentText={() => serializeDiagram(diagram)}
+        onOpen={handleLoad}
+      />
+      <CollabStatus
+        clientId={collab.clientId}
+        peers={presence.peers}
+        conflicts={collab.conflicts}
+        onDismiss={collab.clearConflicts}
+      />
+      <SchemaViolationList
+        violations={schemaViolations}
+        onDismiss={clearSchemaViolations}
+      />
+      <RuleViolationList
+        diagram={goDiagram}
+        data={diagram}
+        violations={ruleViolations}
+        enforce={enforceRules}
+        onEnforceChange={setEnforceRules}
+        rejection={enforcement.rejection}
+        onDismissRejection={enforcement.clearRejection}
+      />
     </div>
   );
 };
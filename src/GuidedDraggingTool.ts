@@ -11,6 +11,17 @@
 */
 import * as go from 'gojs';
 
+import { GuidelineIndex } from './GuidelineIndex';
+
+/**
+ * The dragged parts that guides are matched against, which move together when snapped.
+ */
+export interface GuidedParts {
+  parts: Array<go.Part>;  // top-level parts; moving a group moves its members
+  bounds: go.Rect;  // the union of the parts' location objects' bounds
+  location: go.Point;  // matched against the grid
+}
+
 /**
  * The GuidedDraggingTool class makes guidelines visible as the parts are dragged around a diagram
  * when the selected part is nearly aligned with another part.
@@ -27,6 +38,16 @@ export class GuidedDraggingTool extends go.DraggingTool {
   private guidelineVleft: go.Part;
   private guidelineVright: go.Part;
   private guidelineVcenter: go.Part;
+  // equal spacing guides, each a dimension line with a distance label
+  private spacingGuideLeft: go.Part;
+  private spacingGuideRight: go.Part;
+  private spacingGuideTop: go.Part;
+  private spacingGuideBottom: go.Part;
+
+  // bounds of the parts that aren't being dragged, computed when the drag starts
+  private contentBounds: go.Rect | null = null;
+  // the parts that aren't being dragged, indexed when the drag starts
+  private guideIndex: GuidelineIndex | null = null;
 
   // properties that the programmer can modify
   private _guidelineSnapDistance: number = 6;
@@ -37,6 +58,13 @@ export class GuidedDraggingTool extends go.DraggingTool {
   private _guidelineWidth: number = 1;
   private _searchDistance: number = 1000;
   private _isGuidelineSnapEnabled: boolean = true;
+  private _isGridGuidelineEnabled: boolean = false;
+  private _guidelineGridCellSize: go.Size = new go.Size(10, 10);
+  private _isSpacingGuidelineEnabled: boolean = false;
+  private _spacingGuidelineColor: string = 'gray';
+  private _isContentBoundsGuidelineEnabled: boolean = false;
+  private _isPerPartGuidelineEnabled: boolean = false;
+  private _isGuidelineIndexEnabled: boolean = true;
 
   /**
    * Constructs a GuidedDraggingTool and sets up the temporary guideline parts.
@@ -68,6 +96,26 @@ export class GuidedDraggingTool extends go.DraggingTool {
     this.guidelineVcenter =
       $(go.Part, partProperties,
         $(go.Shape, shapeProperties, { geometryString: 'M0 0 0 100' }));
+
+    // temporary parts for equal spacing guides; the location is the start of the dimension line
+    const spacingProperties = { layerName: 'Tool', isInDocumentBounds: false, locationObjectName: 'LINE' };
+    const labelProperties = { font: '9px sans-serif', stroke: 'gray', margin: 1 };
+    this.spacingGuideLeft =
+      $(go.Part, go.Panel.Vertical, spacingProperties, { locationSpot: go.Spot.Left },
+        $(go.TextBlock, labelProperties),
+        $(go.Shape, { name: 'LINE', stroke: 'gray' }));
+    this.spacingGuideRight =
+      $(go.Part, go.Panel.Vertical, spacingProperties, { locationSpot: go.Spot.Left },
+        $(go.TextBlock, labelProperties),
+        $(go.Shape, { name: 'LINE', stroke: 'gray' }));
+    this.spacingGuideTop =
+      $(go.Part, go.Panel.Horizontal, spacingProperties, { locationSpot: go.Spot.Top },
+        $(go.Shape, { name: 'LINE', stroke: 'gray' }),
+        $(go.TextBlock, labelProperties));
+    this.spacingGuideBottom =
+      $(go.Part, go.Panel.Horizontal, spacingProperties, { locationSpot: go.Spot.Top },
+        $(go.Shape, { name: 'LINE', stroke: 'gray' }),
+        $(go.TextBlock, labelProperties));
   }
 
   /**
@@ -155,6 +203,10 @@ export class GuidedDraggingTool extends go.DraggingTool {
       (this.guidelineVright.elements.first() as go.Shape).strokeWidth = val;
       (this.guidelineHbottom.elements.first() as go.Shape).strokeWidth = val;
       (this.guidelineHtop.elements.first() as go.Shape).strokeWidth = val;
+      (this.spacingGuideLeft.findObject('LINE') as go.Shape).strokeWidth = val;
+      (this.spacingGuideRight.findObject('LINE') as go.Shape).strokeWidth = val;
+      (this.spacingGuideTop.findObject('LINE') as go.Shape).strokeWidth = val;
+      (this.spacingGuideBottom.findObject('LINE') as go.Shape).strokeWidth = val;
     }
   }
 
@@ -185,6 +237,111 @@ export class GuidedDraggingTool extends go.DraggingTool {
     }
   }
 
+  /**
+   * Gets or sets whether parts are guided to grid lines when they aren't aligned with another part.
+   * The part's location is matched against grid lines spaced {@link #guidelineGridCellSize} apart,
+   * within the same {@link #guidelineSnapDistance} as other guidelines.
+   *
+   * The default value is false.
+   */
+  get isGridGuidelineEnabled(): boolean { return this._isGridGuidelineEnabled; }
+  set isGridGuidelineEnabled(val: boolean) {
+    if (typeof val !== 'boolean') throw new Error('new value for GuidedDraggingTool.isGridGuidelineEnabled must be a boolean.');
+    if (this._isGridGuidelineEnabled !== val) {
+      this._isGridGuidelineEnabled = val;
+    }
+  }
+
+  /**
+   * Gets or sets the spacing of the grid lines used when {@link #isGridGuidelineEnabled} is true.
+   *
+   * The default value is 10x10.
+   */
+  get guidelineGridCellSize(): go.Size { return this._guidelineGridCellSize; }
+  set guidelineGridCellSize(val: go.Size) {
+    if (!(val instanceof go.Size) || !(val.width > 0 && val.height > 0)) throw new Error('new value for GuidedDraggingTool.guidelineGridCellSize must be a Size with a positive width and height.');
+    if (!this._guidelineGridCellSize.equals(val)) {
+      this._guidelineGridCellSize = val.copy();
+    }
+  }
+
+  /**
+   * Gets or sets whether a part that sits nearly evenly between two neighbors shows equal spacing guides,
+   * labeled with the distance, and snaps to the exact midpoint.
+   * These are only considered along a direction in which the part isn't aligned with another part.
+   *
+   * The default value is false.
+   */
+  get isSpacingGuidelineEnabled(): boolean { return this._isSpacingGuidelineEnabled; }
+  set isSpacingGuidelineEnabled(val: boolean) {
+    if (typeof val !== 'boolean') throw new Error('new value for GuidedDraggingTool.isSpacingGuidelineEnabled must be a boolean.');
+    if (this._isSpacingGuidelineEnabled !== val) {
+      this._isSpacingGuidelineEnabled = val;
+    }
+  }
+
+  /**
+   * Gets or sets the color of equal spacing guides and their labels.
+   *
+   * The default value is "gray".
+   */
+  get spacingGuidelineColor(): string { return this._spacingGuidelineColor; }
+  set spacingGuidelineColor(val: string) {
+    if (this._spacingGuidelineColor !== val) {
+      this._spacingGuidelineColor = val;
+      [this.spacingGuideLeft, this.spacingGuideRight, this.spacingGuideTop, this.spacingGuideBottom].forEach((guide) => {
+        guide.elements.each((elt) => {
+          if (elt instanceof go.Shape) elt.stroke = val;
+          else if (elt instanceof go.TextBlock) elt.stroke = val;
+        });
+      });
+    }
+  }
+
+  /**
+   * Gets or sets whether parts are also aligned with the edges and center of the bounds of all the other parts,
+   * as if those bounds were one more part.
+   *
+   * The default value is false.
+   */
+  get isContentBoundsGuidelineEnabled(): boolean { return this._isContentBoundsGuidelineEnabled; }
+  set isContentBoundsGuidelineEnabled(val: boolean) {
+    if (typeof val !== 'boolean') throw new Error('new value for GuidedDraggingTool.isContentBoundsGuidelineEnabled must be a boolean.');
+    if (this._isContentBoundsGuidelineEnabled !== val) {
+      this._isContentBoundsGuidelineEnabled = val;
+    }
+  }
+
+  /**
+   * Gets or sets whether each dragged part is matched and snapped on its own when several parts are dragged.
+   * While dragging, only the guides for the part under the mouse are shown.
+   * When false, the dragged parts are matched as one, by the bounding box of them all.
+   *
+   * The default value is false.
+   */
+  get isPerPartGuidelineEnabled(): boolean { return this._isPerPartGuidelineEnabled; }
+  set isPerPartGuidelineEnabled(val: boolean) {
+    if (typeof val !== 'boolean') throw new Error('new value for GuidedDraggingTool.isPerPartGuidelineEnabled must be a boolean.');
+    if (this._isPerPartGuidelineEnabled !== val) {
+      this._isPerPartGuidelineEnabled = val;
+    }
+  }
+
+  /**
+   * Gets or sets whether the parts that aren't being dragged are indexed once when a drag starts,
+   * rather than searched for with {@link Diagram#findObjectsIn} on every mouse move.
+   * Turn this off if other parts may move during a drag, for instance because of another user's edits.
+   *
+   * The default value is true.
+   */
+  get isGuidelineIndexEnabled(): boolean { return this._isGuidelineIndexEnabled; }
+  set isGuidelineIndexEnabled(val: boolean) {
+    if (typeof val !== 'boolean') throw new Error('new value for GuidedDraggingTool.isGuidelineIndexEnabled must be a boolean.');
+    if (this._isGuidelineIndexEnabled !== val) {
+      this._isGuidelineIndexEnabled = val;
+    }
+  }
+
   /**
    * Removes all of the guidelines from the grid.
    */
@@ -195,6 +352,32 @@ export class GuidedDraggingTool extends go.DraggingTool {
     this.diagram.remove(this.guidelineVleft);
     this.diagram.remove(this.guidelineVright);
     this.diagram.remove(this.guidelineVcenter);
+    this.diagram.remove(this.spacingGuideLeft);
+    this.diagram.remove(this.spacingGuideRight);
+    this.diagram.remove(this.spacingGuideTop);
+    this.diagram.remove(this.spacingGuideBottom);
+  }
+
+  /**
+   * Calls the base method and measures the parts that aren't being dragged,
+   * for {@link #isContentBoundsGuidelineEnabled} and {@link #isGuidelineIndexEnabled}.
+   */
+  public doActivate(): void {
+    super.doActivate();
+    this.contentBounds = null;
+    this.guideIndex = null;
+    if (!this.isContentBoundsGuidelineEnabled && !this.isGuidelineIndexEnabled) return;
+
+    const bounds: Array<go.Rect> = [];
+    const add = (p: go.Part) => {
+      if (this.isGuideCandidate(p) && p.isVisible()) bounds.push(p.locationObject.getDocumentBounds());
+    };
+    this.diagram.parts.each(add);
+    this.diagram.nodes.each(add);
+    if (this.isContentBoundsGuidelineEnabled && bounds.length > 0) {
+      this.contentBounds = bounds.reduce((union, b) => union.unionRect(b), bounds[0].copy());
+    }
+    if (this.isGuidelineIndexEnabled) this.guideIndex = new GuidelineIndex(bounds);
   }
 
   /**
@@ -204,6 +387,28 @@ export class GuidedDraggingTool extends go.DraggingTool {
     super.doDeactivate();
     // clear any guidelines when dragging is done
     this.clearGuidelines();
+    this.contentBounds = null;
+    this.guideIndex = null;
+  }
+
+  /**
+   * Shows or snaps to the guides for a part, one direction at a time.
+   * Alignment with other parts (or the content bounds) wins over equal spacing, which wins over the grid.
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
+   * @param {boolean} guideline if true, show guidelines
+   * @param {boolean} snap if true, snap the part to where the guidelines would be
+   */
+  public showMatches(guided: GuidedParts, guideline: boolean, snap: boolean): void {
+    if (!this.showHorizontalMatches(guided, guideline, snap) &&
+        !(this.isSpacingGuidelineEnabled && this.showVerticalSpacing(guided, guideline, snap)) &&
+        this.isGridGuidelineEnabled) {
+      this.showHorizontalGridMatch(guided, guideline, snap);
+    }
+    if (!this.showVerticalMatches(guided, guideline, snap) &&
+        !(this.isSpacingGuidelineEnabled && this.showHorizontalSpacing(guided, guideline, snap)) &&
+        this.isGridGuidelineEnabled) {
+      this.showVerticalGridMatch(guided, guideline, snap);
+    }
   }
 
   /**
@@ -213,16 +418,9 @@ export class GuidedDraggingTool extends go.DraggingTool {
     // clear all existing guidelines in case either show... method decides to show a guideline
     this.clearGuidelines();
 
-    // gets the selected part
-    const draggingParts = this.copiedParts || this.draggedParts;
-    if (draggingParts === null) return;
-    const partItr = draggingParts.iterator;
-    if (partItr.next()) {
-      const part = partItr.key;
-
-      this.showHorizontalMatches(part, this.isGuidelineEnabled, false);
-      this.showVerticalMatches(part, this.isGuidelineEnabled, false);
-    }
+    // the guides can only be shown for one part at a time, the first being the one under the mouse
+    const guided = this.computeGuidedParts();
+    if (guided.length > 0) this.showMatches(guided[0], this.isGuidelineEnabled, false);
   }
 
   /**
@@ -232,20 +430,82 @@ export class GuidedDraggingTool extends go.DraggingTool {
   public doDropOnto(pt: go.Point, obj: go.GraphObject): void {
     this.clearGuidelines();
 
-    // gets the selected (perhaps copied) Part
+    // snaps only when the mouse is released without shift modifier
+    const e = this.diagram.lastInput;
+    const snap = this.isGuidelineSnapEnabled && !e.shift;
+    if (!snap) return;
+
+    this.computeGuidedParts().forEach((guided) => {
+      this.showMatches(guided, false, snap);  // false means don't show guidelines
+    });
+  }
+
+  /**
+   * Collects the dragged (perhaps copied) top-level parts into the units that guides are matched against:
+   * one for the whole selection, or one per part if {@link #isPerPartGuidelineEnabled}.
+   * The unit holding the part under the mouse comes first.
+   */
+  public computeGuidedParts(): Array<GuidedParts> {
     const draggingParts = this.copiedParts || this.draggedParts;
-    if (draggingParts === null) return;
-    const partItr = draggingParts.iterator;
-    if (partItr.next()) {
-      const part = partItr.key;
+    if (draggingParts === null) return [];
+    const parts: Array<go.Part> = [];
+    draggingParts.iteratorKeys.each((p) => {
+      if (p.isTopLevel && !(p instanceof go.Link)) parts.push(p);
+    });
+    if (parts.length === 0) return [];
+    // the current part is the original, so when copying just start with any copy
+    const current = this.currentPart;
+    const primary = current !== null && parts.indexOf(current) >= 0 ? current : parts[0];
+
+    const makeGuided = (ps: Array<go.Part>): GuidedParts => {
+      const bounds = ps[0].locationObject.getDocumentBounds().copy();
+      ps.forEach((p) => bounds.unionRect(p.locationObject.getDocumentBounds()));
+      const loc = ps.indexOf(primary) >= 0 ? primary.location : ps[0].location;
+      return { parts: ps, bounds: bounds, location: loc.copy() };
+    };
+    if (!this.isPerPartGuidelineEnabled) return [makeGuided(parts)];
+    return [primary].concat(parts.filter((p) => p !== primary)).map((p) => makeGuided([p]));
+  }
 
-      // snaps only when the mouse is released without shift modifier
-      const e = this.diagram.lastInput;
-      const snap = this.isGuidelineSnapEnabled && !e.shift;
+  /**
+   * Whether a part can be aligned with: any top-level node or plain part that isn't selected or being dragged.
+   */
+  public isGuideCandidate(p: go.Part): boolean {
+    if (p.isSelected || p instanceof go.Link || !p.isTopLevel || p.layer === null || p.layer.isTemporary) return false;
+    const draggingParts = this.copiedParts || this.draggedParts;
+    return draggingParts === null || !draggingParts.has(p);
+  }
 
-      this.showHorizontalMatches(part, false, snap);  // false means don't show guidelines
-      this.showVerticalMatches(part, false, snap);
+  /**
+   * Finds the bounds of the parts in the search area that may be aligned with any of the given values,
+   * which are y values for horizontal guidelines and x values for vertical ones.
+   */
+  private findAlignmentCandidates(area: go.Rect, values: Array<number>, horizontal: boolean): Array<go.Rect> {
+    const index = this.guideIndex;
+    if (index !== null) {
+      return horizontal
+        ? index.findAlignedY(values, this.guidelineSnapDistance, area)
+        : index.findAlignedX(values, this.guidelineSnapDistance, area);
     }
+    const result: Array<go.Rect> = [];
+    this.diagram.findObjectsIn(area,
+      (obj) => obj.part as go.Part,
+      (p) => p instanceof go.Part && this.isGuideCandidate(p),
+      true).each((p) => result.push((p as go.Part).locationObject.getDocumentBounds()));
+    return result;
+  }
+
+  /**
+   * Moves guided parts together by the given offset, as when snapping to a guide.
+   */
+  public moveGuidedParts(guided: GuidedParts, dx: number, dy: number): void {
+    guided.parts.forEach((part) => {
+      // call Part.move in order to automatically move member Parts of Groups
+      part.move(new go.Point(part.actualBounds.x + dx, part.actualBounds.y + dy));
+      this.invalidateLinks(part);
+    });
+    guided.bounds.offset(dx, dy);
+    guided.location.offset(dx, dy);
   }
 
   /**
@@ -261,12 +521,13 @@ export class GuidedDraggingTool extends go.DraggingTool {
    * This finds parts that are aligned near the selected part along horizontal lines. It compares the selected
    * part to all parts within a rectangle approximately twice the {@link #searchDistance} wide.
    * The guidelines appear when a part is aligned within a margin-of-error equal to {@link #guidelineSnapDistance}.
-   * @param {Node} part
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
    * @param {boolean} guideline if true, show guideline
    * @param {boolean} snap if true, snap the part to where the guideline would be
+   * @return {boolean} whether the part was aligned with anything
    */
-  public showHorizontalMatches(part: go.Part, guideline: boolean, snap: boolean): void {
-    const objBounds = part.locationObject.getDocumentBounds();
+  public showHorizontalMatches(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const objBounds = guided.bounds.copy();
     const p0 = objBounds.y;
     const p1 = objBounds.y + objBounds.height / 2;
     const p2 = objBounds.y + objBounds.height;
@@ -276,20 +537,14 @@ export class GuidedDraggingTool extends go.DraggingTool {
     // compares with parts within narrow vertical area
     const area = objBounds.copy();
     area.inflate(distance, marginOfError + 1);
-    const otherObjs = this.diagram.findObjectsIn(area,
-      (obj) => obj.part as go.Part,
-      (p) => p instanceof go.Part && !p.isSelected && !(p instanceof go.Link) && p.isTopLevel && p.layer !== null && !p.layer.isTemporary,
-      true) as go.Set<go.Part>;
+    const candidates = this.findAlignmentCandidates(area, [p0, p1, p2], true);
 
     let bestDiff: number = marginOfError;
-    let bestObj: any = null; // TS 2.6 won't let this be go.Part | null
+    let bestBounds: go.Rect | null = null;  // of the part, or of the content bounds
     let bestSpot: go.Spot = go.Spot.Default;
     let bestOtherSpot: go.Spot = go.Spot.Default;
     // horizontal line -- comparing y-values
-    otherObjs.each((other) => {
-      if (other === part) return; // ignore itself
-
-      const otherBounds = other.locationObject.getDocumentBounds();
+    candidates.forEach((otherBounds) => {
       const q0 = otherBounds.y;
       const q1 = otherBounds.y + otherBounds.height / 2;
       const q2 = otherBounds.y + otherBounds.height;
@@ -297,40 +552,59 @@ export class GuidedDraggingTool extends go.DraggingTool {
       // compare center with center of OTHER part
       if (Math.abs(p1 - q1) < bestDiff) {
         bestDiff = Math.abs(p1 - q1);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Center;
         bestOtherSpot = go.Spot.Center;
       }
       // compare top side with top and bottom sides of OTHER part
       if (Math.abs(p0 - q0) < bestDiff) {
         bestDiff = Math.abs(p0 - q0);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Top;
         bestOtherSpot = go.Spot.Top;
       } else if (Math.abs(p0 - q2) < bestDiff) {
         bestDiff = Math.abs(p0 - q2);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Top;
         bestOtherSpot = go.Spot.Bottom;
       }
       // compare bottom side with top and bottom sides of OTHER part
       if (Math.abs(p2 - q0) < bestDiff) {
         bestDiff = Math.abs(p2 - q0);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Bottom;
         bestOtherSpot = go.Spot.Top;
       } else if (Math.abs(p2 - q2) < bestDiff) {
         bestDiff = Math.abs(p2 - q2);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Bottom;
         bestOtherSpot = go.Spot.Bottom;
       }
     });
+    // compare with the top, center, and bottom of everything else
+    const content = this.contentBounds;
+    if (content !== null) {
+      if (Math.abs(p1 - content.centerY) < bestDiff) {
+        bestDiff = Math.abs(p1 - content.centerY);
+        bestBounds = content;
+        bestSpot = go.Spot.Center;
+        bestOtherSpot = go.Spot.Center;
+      }
+      if (Math.abs(p0 - content.top) < bestDiff) {
+        bestDiff = Math.abs(p0 - content.top);
+        bestBounds = content;
+        bestSpot = go.Spot.Top;
+        bestOtherSpot = go.Spot.Top;
+      }
+      if (Math.abs(p2 - content.bottom) < bestDiff) {
+        bestDiff = Math.abs(p2 - content.bottom);
+        bestBounds = content;
+        bestSpot = go.Spot.Bottom;
+        bestOtherSpot = go.Spot.Bottom;
+      }
+    }
 
-    if (bestObj !== null) {
-      const offsetX = objBounds.x - part.actualBounds.x;
-      const offsetY = objBounds.y - part.actualBounds.y;
-      const bestBounds = bestObj.locationObject.getDocumentBounds();
+    if (bestBounds !== null) {
       // line extends from x0 to x2
       const x0 = Math.min(objBounds.x, bestBounds.x) - 10;
       const x2 = Math.max(objBounds.x + objBounds.width, bestBounds.x + bestBounds.width) + 10;
@@ -338,9 +612,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
       const bestPoint = new go.Point().setRectSpot(bestBounds, bestOtherSpot);
       if (bestSpot === go.Spot.Center) {
         if (snap) {
-          // call Part.move in order to automatically move member Parts of Groups
-          part.move(new go.Point(objBounds.x - offsetX, bestPoint.y - objBounds.height / 2 - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, 0, bestPoint.y - objBounds.height / 2 - objBounds.y);
         }
         if (guideline) {
           this.guidelineHcenter.position = new go.Point(x0, bestPoint.y);
@@ -349,8 +621,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       } else if (bestSpot === go.Spot.Top) {
         if (snap) {
-          part.move(new go.Point(objBounds.x - offsetX, bestPoint.y - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, 0, bestPoint.y - objBounds.y);
         }
         if (guideline) {
           this.guidelineHtop.position = new go.Point(x0, bestPoint.y);
@@ -359,8 +630,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       } else if (bestSpot === go.Spot.Bottom) {
         if (snap) {
-          part.move(new go.Point(objBounds.x - offsetX, bestPoint.y - objBounds.height - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, 0, bestPoint.y - objBounds.height - objBounds.y);
         }
         if (guideline) {
           this.guidelineHbottom.position = new go.Point(x0, bestPoint.y);
@@ -369,18 +639,20 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       }
     }
+    return bestBounds !== null;
   }
 
   /**
    * This finds parts that are aligned near the selected part along vertical lines. It compares the selected
    * part to all parts within a rectangle approximately twice the {@link #searchDistance} tall.
    * The guidelines appear when a part is aligned within a margin-of-error equal to {@link #guidelineSnapDistance}.
-   * @param {Part} part
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
    * @param {boolean} guideline if true, show guideline
    * @param {boolean} snap if true, don't show guidelines but just snap the part to where the guideline would be
+   * @return {boolean} whether the part was aligned with anything
    */
-  public showVerticalMatches(part: go.Part, guideline: boolean, snap: boolean): void {
-    const objBounds = part.locationObject.getDocumentBounds();
+  public showVerticalMatches(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const objBounds = guided.bounds.copy();
     const p0 = objBounds.x;
     const p1 = objBounds.x + objBounds.width / 2;
     const p2 = objBounds.x + objBounds.width;
@@ -390,20 +662,14 @@ export class GuidedDraggingTool extends go.DraggingTool {
     // compares with parts within narrow vertical area
     const area = objBounds.copy();
     area.inflate(marginOfError + 1, distance);
-    const otherObjs = this.diagram.findObjectsIn(area,
-      (obj) => obj.part as go.Part,
-      (p) => p instanceof go.Part && !p.isSelected && !(p instanceof go.Link) && p.isTopLevel && p.layer !== null && !p.layer.isTemporary,
-      true) as go.Set<go.Part>;
+    const candidates = this.findAlignmentCandidates(area, [p0, p1, p2], false);
 
     let bestDiff: number = marginOfError;
-    let bestObj: any = null;  // TS 2.6 won't let this be go.Part | null
+    let bestBounds: go.Rect | null = null;  // of the part, or of the content bounds
     let bestSpot: go.Spot = go.Spot.Default;
     let bestOtherSpot: go.Spot = go.Spot.Default;
     // vertical line -- comparing x-values
-    otherObjs.each((other) => {
-      if (other === part) return; // ignore itself
-
-      const otherBounds = other.locationObject.getDocumentBounds();
+    candidates.forEach((otherBounds) => {
       const q0 = otherBounds.x;
       const q1 = otherBounds.x + otherBounds.width / 2;
       const q2 = otherBounds.x + otherBounds.width;
@@ -411,40 +677,59 @@ export class GuidedDraggingTool extends go.DraggingTool {
       // compare center with center of OTHER part
       if (Math.abs(p1 - q1) < bestDiff) {
         bestDiff = Math.abs(p1 - q1);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Center;
         bestOtherSpot = go.Spot.Center;
       }
       // compare left side with left and right sides of OTHER part
       if (Math.abs(p0 - q0) < bestDiff) {
         bestDiff = Math.abs(p0 - q0);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Left;
         bestOtherSpot = go.Spot.Left;
       } else if (Math.abs(p0 - q2) < bestDiff) {
         bestDiff = Math.abs(p0 - q2);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Left;
         bestOtherSpot = go.Spot.Right;
       }
       // compare right side with left and right sides of OTHER part
       if (Math.abs(p2 - q0) < bestDiff) {
         bestDiff = Math.abs(p2 - q0);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Right;
         bestOtherSpot = go.Spot.Left;
       } else if (Math.abs(p2 - q2) < bestDiff) {
         bestDiff = Math.abs(p2 - q2);
-        bestObj = other;
+        bestBounds = otherBounds;
         bestSpot = go.Spot.Right;
         bestOtherSpot = go.Spot.Right;
       }
     });
+    // compare with the left, center, and right of everything else
+    const content = this.contentBounds;
+    if (content !== null) {
+      if (Math.abs(p1 - content.centerX) < bestDiff) {
+        bestDiff = Math.abs(p1 - content.centerX);
+        bestBounds = content;
+        bestSpot = go.Spot.Center;
+        bestOtherSpot = go.Spot.Center;
+      }
+      if (Math.abs(p0 - content.left) < bestDiff) {
+        bestDiff = Math.abs(p0 - content.left);
+        bestBounds = content;
+        bestSpot = go.Spot.Left;
+        bestOtherSpot = go.Spot.Left;
+      }
+      if (Math.abs(p2 - content.right) < bestDiff) {
+        bestDiff = Math.abs(p2 - content.right);
+        bestBounds = content;
+        bestSpot = go.Spot.Right;
+        bestOtherSpot = go.Spot.Right;
+      }
+    }
 
-    if (bestObj !== null) {
-      const offsetX = objBounds.x - part.actualBounds.x;
-      const offsetY = objBounds.y - part.actualBounds.y;
-      const bestBounds = bestObj.locationObject.getDocumentBounds();
+    if (bestBounds !== null) {
       // line extends from y0 to y2
       const y0 = Math.min(objBounds.y, bestBounds.y) - 10;
       const y2 = Math.max(objBounds.y + objBounds.height, bestBounds.y + bestBounds.height) + 10;
@@ -452,9 +737,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
       const bestPoint = new go.Point().setRectSpot(bestBounds, bestOtherSpot);
       if (bestSpot === go.Spot.Center) {
         if (snap) {
-          // call Part.move in order to automatically move member Parts of Groups
-          part.move(new go.Point(bestPoint.x - objBounds.width / 2 - offsetX, objBounds.y - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, bestPoint.x - objBounds.width / 2 - objBounds.x, 0);
         }
         if (guideline) {
           this.guidelineVcenter.position = new go.Point(bestPoint.x, y0);
@@ -463,8 +746,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       } else if (bestSpot === go.Spot.Left) {
         if (snap) {
-          part.move(new go.Point(bestPoint.x - offsetX, objBounds.y - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, bestPoint.x - objBounds.x, 0);
         }
         if (guideline) {
           this.guidelineVleft.position = new go.Point(bestPoint.x, y0);
@@ -473,8 +755,7 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       } else if (bestSpot === go.Spot.Right) {
         if (snap) {
-          part.move(new go.Point(bestPoint.x - objBounds.width - offsetX, objBounds.y - offsetY));
-          this.invalidateLinks(part);
+          this.moveGuidedParts(guided, bestPoint.x - objBounds.width - objBounds.x, 0);
         }
         if (guideline) {
           this.guidelineVright.position = new go.Point(bestPoint.x, y0);
@@ -483,5 +764,181 @@ export class GuidedDraggingTool extends go.DraggingTool {
         }
       }
     }
+    return bestBounds !== null;
+  }
+
+  /**
+   * This finds the nearest parts to the left and right of the selected part that overlap it vertically,
+   * and checks whether the part is nearly centered between them.
+   * If so, the two gaps are marked with dimension lines labeled with their width.
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
+   * @param {boolean} guideline if true, show the spacing guides
+   * @param {boolean} snap if true, snap the part to exactly halfway between its neighbors
+   * @return {boolean} whether the part was evenly spaced
+   */
+  public showHorizontalSpacing(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const objBounds = guided.bounds.copy();
+    let left: go.Rect | null = null;
+    let right: go.Rect | null = null;
+    if (this.guideIndex !== null) {
+      left = this.guideIndex.findNearestLeft(objBounds, this.searchDistance);
+      right = this.guideIndex.findNearestRight(objBounds, this.searchDistance);
+    } else {
+      const area = objBounds.copy();
+      area.inflate(this.searchDistance, 0);
+      const otherObjs = this.diagram.findObjectsIn(area,
+        (obj) => obj.part as go.Part,
+        (p) => p instanceof go.Part && this.isGuideCandidate(p),
+        true) as go.Set<go.Part>;
+      otherObjs.each((other) => {
+        const otherBounds = other.locationObject.getDocumentBounds();
+        if (otherBounds.bottom <= objBounds.top || otherBounds.top >= objBounds.bottom) return;
+        if (otherBounds.right <= objBounds.left) {
+          if (left === null || otherBounds.right > left.right) left = otherBounds;
+        } else if (otherBounds.left >= objBounds.right) {
+          if (right === null || otherBounds.left < right.left) right = otherBounds;
+        }
+      });
+    }
+    if (left === null || right === null) return false;
+    const leftBounds: go.Rect = left;
+    const rightBounds: go.Rect = right;
+
+    // moving the part by half the difference between the gaps makes them equal
+    const gapLeft = objBounds.left - leftBounds.right;
+    const gapRight = rightBounds.left - objBounds.right;
+    if (Math.abs(gapLeft - gapRight) / 2 >= this.guidelineSnapDistance) return false;
+    const gap = (gapLeft + gapRight) / 2;
+    const x = leftBounds.right + gap;
+
+    if (snap) {
+      this.moveGuidedParts(guided, x - objBounds.x, 0);
+    }
+    if (guideline) {
+      const y = objBounds.centerY;
+      this.showSpacingGuide(this.spacingGuideLeft, true, new go.Point(leftBounds.right, y), gap);
+      this.showSpacingGuide(this.spacingGuideRight, true, new go.Point(x + objBounds.width, y), gap);
+    }
+    return true;
+  }
+
+  /**
+   * This finds the nearest parts above and below the selected part that overlap it horizontally,
+   * and checks whether the part is nearly centered between them.
+   * If so, the two gaps are marked with dimension lines labeled with their height.
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
+   * @param {boolean} guideline if true, show the spacing guides
+   * @param {boolean} snap if true, snap the part to exactly halfway between its neighbors
+   * @return {boolean} whether the part was evenly spaced
+   */
+  public showVerticalSpacing(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const objBounds = guided.bounds.copy();
+    let above: go.Rect | null = null;
+    let below: go.Rect | null = null;
+    if (this.guideIndex !== null) {
+      above = this.guideIndex.findNearestAbove(objBounds, this.searchDistance);
+      below = this.guideIndex.findNearestBelow(objBounds, this.searchDistance);
+    } else {
+      const area = objBounds.copy();
+      area.inflate(0, this.searchDistance);
+      const otherObjs = this.diagram.findObjectsIn(area,
+        (obj) => obj.part as go.Part,
+        (p) => p instanceof go.Part && this.isGuideCandidate(p),
+        true) as go.Set<go.Part>;
+      otherObjs.each((other) => {
+        const otherBounds = other.locationObject.getDocumentBounds();
+        if (otherBounds.right <= objBounds.left || otherBounds.left >= objBounds.right) return;
+        if (otherBounds.bottom <= objBounds.top) {
+          if (above === null || otherBounds.bottom > above.bottom) above = otherBounds;
+        } else if (otherBounds.top >= objBounds.bottom) {
+          if (below === null || otherBounds.top < below.top) below = otherBounds;
+        }
+      });
+    }
+    if (above === null || below === null) return false;
+    const aboveBounds: go.Rect = above;
+    const belowBounds: go.Rect = below;
+
+    // moving the part by half the difference between the gaps makes them equal
+    const gapAbove = objBounds.top - aboveBounds.bottom;
+    const gapBelow = belowBounds.top - objBounds.bottom;
+    if (Math.abs(gapAbove - gapBelow) / 2 >= this.guidelineSnapDistance) return false;
+    const gap = (gapAbove + gapBelow) / 2;
+    const y = aboveBounds.bottom + gap;
+
+    if (snap) {
+      this.moveGuidedParts(guided, 0, y - objBounds.y);
+    }
+    if (guideline) {
+      const x = objBounds.centerX;
+      this.showSpacingGuide(this.spacingGuideTop, false, new go.Point(x, aboveBounds.bottom), gap);
+      this.showSpacingGuide(this.spacingGuideBottom, false, new go.Point(x, y + objBounds.height), gap);
+    }
+    return true;
+  }
+
+  /**
+   * Draws a spacing guide as a dimension line starting at the given point, with end ticks and a label.
+   */
+  private showSpacingGuide(guide: go.Part, horizontal: boolean, start: go.Point, length: number): void {
+    const shape = guide.findObject('LINE') as go.Shape;
+    shape.geometry = horizontal
+      ? go.Geometry.parse(`M0 -3 L0 3 M0 0 L${length} 0 M${length} -3 L${length} 3`)
+      : go.Geometry.parse(`M-3 0 L3 0 M0 0 L0 ${length} M-3 ${length} L3 ${length}`);
+    (guide.elements.filter((elt) => elt instanceof go.TextBlock).first() as go.TextBlock).text = Math.round(length).toString();
+    guide.location = start;
+    this.diagram.add(guide);
+  }
+
+  /**
+   * This checks whether the selected part's location is near a horizontal grid line,
+   * spaced {@link #guidelineGridCellSize} apart.
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
+   * @param {boolean} guideline if true, show the grid line as a guideline
+   * @param {boolean} snap if true, snap the part's location onto the grid line
+   * @return {boolean} whether the part was near a grid line
+   */
+  public showHorizontalGridMatch(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const loc = guided.location.copy();
+    const cell = this.guidelineGridCellSize.height;
+    const y = Math.round(loc.y / cell) * cell;
+    if (Math.abs(y - loc.y) >= this.guidelineSnapDistance) return false;
+
+    if (snap) {
+      this.moveGuidedParts(guided, 0, y - loc.y);
+    }
+    if (guideline) {
+      const objBounds = guided.bounds;
+      this.guidelineHcenter.position = new go.Point(objBounds.x - 10, y);
+      this.guidelineHcenter.elt(0).width = objBounds.width + 20;
+      this.diagram.add(this.guidelineHcenter);
+    }
+    return true;
+  }
+
+  /**
+   * This checks whether the selected part's location is near a vertical grid line,
+   * spaced {@link #guidelineGridCellSize} apart.
+   * @param {GuidedParts} guided the dragged part, or parts moving as one
+   * @param {boolean} guideline if true, show the grid line as a guideline
+   * @param {boolean} snap if true, snap the part's location onto the grid line
+   * @return {boolean} whether the part was near a grid line
+   */
+  public showVerticalGridMatch(guided: GuidedParts, guideline: boolean, snap: boolean): boolean {
+    const loc = guided.location.copy();
+    const cell = this.guidelineGridCellSize.width;
+    const x = Math.round(loc.x / cell) * cell;
+    if (Math.abs(x - loc.x) >= this.guidelineSnapDistance) return false;
+
+    if (snap) {
+      this.moveGuidedParts(guided, x - loc.x, 0);
+    }
+    if (guideline) {
+      const objBounds = guided.bounds;
+      this.guidelineVcenter.position = new go.Point(x, objBounds.y - 10);
+      this.guidelineVcenter.elt(0).height = objBounds.height + 20;
+      this.diagram.add(this.guidelineVcenter);
+    }
+    return true;
   }
 }
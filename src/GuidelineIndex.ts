@@ -0,0 +1,157 @@
+import * as go from 'gojs';
+
+interface IndexedEdge {
+  value: number;
+  bounds: go.Rect;
+}
+
+/**
+ * Find the first entry whose value is at least the given value.
+ */
+function lowerBound(edges: Array<IndexedEdge>, value: number): number {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (edges[mid].value < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Find the first entry whose value is greater than the given value.
+ */
+function upperBound(edges: Array<IndexedEdge>, value: number): number {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (edges[mid].value <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function sortedBy(bounds: Array<go.Rect>, edge: (b: go.Rect) => number): Array<IndexedEdge> {
+  return bounds.map((b) => ({ value: edge(b), bounds: b })).sort((a, b) => a.value - b.value);
+}
+
+/**
+ * The edges and centers of a fixed set of part bounds, each sorted so that the parts near a given
+ * x or y value can be found by binary search instead of by searching the whole diagram.
+ *
+ * The GuidedDraggingTool builds one of these when a drag starts, since the parts that aren't being dragged
+ * stay where they are until it ends.
+ */
+export class GuidelineIndex {
+  private lefts: Array<IndexedEdge>;
+  private centerXs: Array<IndexedEdge>;
+  private rights: Array<IndexedEdge>;
+  private tops: Array<IndexedEdge>;
+  private centerYs: Array<IndexedEdge>;
+  private bottoms: Array<IndexedEdge>;
+
+  /**
+   * @param {Array<Rect>} bounds the document bounds of the parts to index
+   */
+  constructor(bounds: Array<go.Rect>) {
+    this.lefts = sortedBy(bounds, (b) => b.left);
+    this.centerXs = sortedBy(bounds, (b) => b.centerX);
+    this.rights = sortedBy(bounds, (b) => b.right);
+    this.tops = sortedBy(bounds, (b) => b.top);
+    this.centerYs = sortedBy(bounds, (b) => b.centerY);
+    this.bottoms = sortedBy(bounds, (b) => b.bottom);
+  }
+
+  /**
+   * Gets the number of indexed parts.
+   */
+  get count(): number { return this.lefts.length; }
+
+  /**
+   * Finds the parts with a top, center, or bottom within the margin of any of the given y values,
+   * that also intersect the search area.
+   * @param {Array<number>} values the y values to match
+   * @param {number} margin how far from a value an edge may be
+   * @param {Rect} area only parts intersecting this are returned
+   */
+  public findAlignedY(values: Array<number>, margin: number, area: go.Rect): Array<go.Rect> {
+    return this.findAligned([this.tops, this.centerYs, this.bottoms], values, margin, area);
+  }
+
+  /**
+   * Finds the parts with a left side, center, or right side within the margin of any of the given x values,
+   * that also intersect the search area.
+   * @param {Array<number>} values the x values to match
+   * @param {number} margin how far from a value an edge may be
+   * @param {Rect} area only parts intersecting this are returned
+   */
+  public findAlignedX(values: Array<number>, margin: number, area: go.Rect): Array<go.Rect> {
+    return this.findAligned([this.lefts, this.centerXs, this.rights], values, margin, area);
+  }
+
+  private findAligned(lists: Array<Array<IndexedEdge>>, values: Array<number>, margin: number, area: go.Rect): Array<go.Rect> {
+    const found = new Set<go.Rect>();
+    lists.forEach((edges) => {
+      values.forEach((value) => {
+        for (let i = lowerBound(edges, value - margin); i < edges.length && edges[i].value <= value + margin; i++) {
+          if (edges[i].bounds.intersectsRect(area)) found.add(edges[i].bounds);
+        }
+      });
+    });
+    return Array.from(found);
+  }
+
+  /**
+   * Finds the closest part entirely to the left of the given bounds that overlaps them vertically.
+   * @param {Rect} bounds
+   * @param {number} distance how far to look
+   */
+  public findNearestLeft(bounds: go.Rect, distance: number): go.Rect | null {
+    for (let i = upperBound(this.rights, bounds.left) - 1; i >= 0 && this.rights[i].value >= bounds.left - distance; i--) {
+      const b = this.rights[i].bounds;
+      if (b.bottom > bounds.top && b.top < bounds.bottom) return b;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the closest part entirely to the right of the given bounds that overlaps them vertically.
+   * @param {Rect} bounds
+   * @param {number} distance how far to look
+   */
+  public findNearestRight(bounds: go.Rect, distance: number): go.Rect | null {
+    for (let i = lowerBound(this.lefts, bounds.right); i < this.lefts.length && this.lefts[i].value <= bounds.right + distance; i++) {
+      const b = this.lefts[i].bounds;
+      if (b.bottom > bounds.top && b.top < bounds.bottom) return b;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the closest part entirely above the given bounds that overlaps them horizontally.
+   * @param {Rect} bounds
+   * @param {number} distance how far to look
+   */
+  public findNearestAbove(bounds: go.Rect, distance: number): go.Rect | null {
+    for (let i = upperBound(this.bottoms, bounds.top) - 1; i >= 0 && this.bottoms[i].value >= bounds.top - distance; i--) {
+      const b = this.bottoms[i].bounds;
+      if (b.right > bounds.left && b.left < bounds.right) return b;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the closest part entirely below the given bounds that overlaps them horizontally.
+   * @param {Rect} bounds
+   * @param {number} distance how far to look
+   */
+  public findNearestBelow(bounds: go.Rect, distance: number): go.Rect | null {
+    for (let i = lowerBound(this.tops, bounds.bottom); i < this.tops.length && this.tops[i].value <= bounds.bottom + distance; i++) {
+      const b = this.tops[i].bounds;
+      if (b.right > bounds.left && b.left < bounds.right) return b;
+    }
+    return null;
+  }
+}
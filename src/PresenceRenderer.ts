@@ -0,0 +1,138 @@
+import * as go from 'gojs';
+
+import { PresenceState } from './collab/presence';
+
+interface DrawnPeer {
+  color: string;
+  name: string;
+  adorned: Set<go.Part>;  // the parts outlined for the peer
+  pointer: go.Part | null;
+}
+
+/**
+ * The PresenceRenderer class shows other participants on a diagram: a colored outline around each
+ * node or link they have selected, and a labeled pointer where their mouse is.
+ * Outlines are Adornments, so they follow their parts as they move; pointers are temporary Parts
+ * in the "Tool" layer, like the guidelines of the GuidedDraggingTool.
+ * None of these are part of the model, so they are never saved or undone.
+ */
+export class PresenceRenderer {
+  private diagram: go.Diagram;
+  // what has been drawn for each peer, by client id
+  private drawn: Map<string, DrawnPeer> = new Map<string, DrawnPeer>();
+
+  /**
+   * Constructs a PresenceRenderer for a diagram. Call #update whenever the peers change.
+   */
+  constructor(diagram: go.Diagram) {
+    this.diagram = diagram;
+  }
+
+  private static category(clientId: string): string {
+    return `presence-${clientId}`;
+  }
+
+  private makeNodeOutline(color: string): go.Adornment {
+    const $ = go.GraphObject.make;
+    return $(go.Adornment, 'Auto',
+      $(go.Shape, { fill: null, stroke: color, strokeWidth: 2, strokeDashArray: [4, 2] }),
+      $(go.Placeholder, { margin: 3 }));
+  }
+
+  private makeLinkOutline(color: string): go.Adornment {
+    const $ = go.GraphObject.make;
+    return $(go.Adornment, 'Link',
+      $(go.Shape, { isPanelMain: true, fill: null, stroke: color, strokeWidth: 4, opacity: 0.5 }));
+  }
+
+  private makePointer(peer: PresenceState): go.Part {
+    const $ = go.GraphObject.make;
+    return $(go.Part, 'Horizontal',
+      { layerName: 'Tool', isInDocumentBounds: false, pickable: false, locationSpot: go.Spot.TopLeft },
+      $(go.Shape, { geometryString: 'F M0 0 L0 14 L4 10 L10 10 Z', fill: peer.color, stroke: null, alignment: go.Spot.Top }),
+      $(go.Panel, 'Auto',
+        $(go.Shape, 'RoundedRectangle', { fill: peer.color, stroke: null }),
+        $(go.TextBlock, peer.name, { margin: 2, stroke: 'white', font: '400 .75rem Roboto, sans-serif' })));
+  }
+
+  /**
+   * Removes every outline and pointer belonging to one peer.
+   */
+  private clearPeer(clientId: string): void {
+    const drawn = this.drawn.get(clientId);
+    if (!drawn) return;
+    const category = PresenceRenderer.category(clientId);
+    drawn.adorned.forEach((part: go.Part) => part.removeAdornment(category));
+    if (drawn.pointer !== null) this.diagram.remove(drawn.pointer);
+    this.drawn.delete(clientId);
+  }
+
+  /**
+   * Removes everything this renderer has added to the diagram.
+   */
+  public clear(): void {
+    Array.from(this.drawn.keys()).forEach((id: string) => this.clearPeer(id));
+  }
+
+  /**
+   * Brings one peer's outlines and pointer up to date, adding and removing only what changed,
+   * so that a pointer move just moves the pointer.
+   */
+  private updatePeer(peer: PresenceState): void {
+    let drawn = this.drawn.get(peer.clientId);
+    if (drawn && (drawn.color !== peer.color || drawn.name !== peer.name)) {
+      this.clearPeer(peer.clientId);
+      drawn = undefined;
+    }
+    if (!drawn) {
+      drawn = { color: peer.color, name: peer.name, adorned: new Set<go.Part>(), pointer: null };
+      this.drawn.set(peer.clientId, drawn);
+    }
+    const category = PresenceRenderer.category(peer.clientId);
+
+    const wanted = new Set<go.Part>();
+    peer.nodeKeys.forEach((key: go.Key) => {
+      const node = this.diagram.findNodeForKey(key);
+      if (node !== null) wanted.add(node);
+    });
+    peer.linkKeys.forEach((key: go.Key) => {
+      const link = this.diagram.findLinkForKey(key);
+      if (link !== null) wanted.add(link);
+    });
+    drawn.adorned.forEach((part: go.Part) => {
+      if (!wanted.has(part)) part.removeAdornment(category);
+    });
+    // parts may have been replaced since they were adorned, so check for the adornment itself
+    wanted.forEach((part: go.Part) => {
+      if (part.findAdornment(category) !== null) return;
+      const outline = part instanceof go.Link ? this.makeLinkOutline(peer.color) : this.makeNodeOutline(peer.color);
+      outline.adornedObject = part instanceof go.Link ? part.path : part;
+      part.addAdornment(category, outline);
+    });
+    drawn.adorned = wanted;
+
+    if (peer.pointer === null) {
+      if (drawn.pointer !== null) this.diagram.remove(drawn.pointer);
+      drawn.pointer = null;
+      return;
+    }
+    if (drawn.pointer === null || drawn.pointer.diagram !== this.diagram) {
+      drawn.pointer = this.makePointer(peer);
+      this.diagram.add(drawn.pointer);
+    }
+    drawn.pointer.location = new go.Point(peer.pointer.x, peer.pointer.y);
+  }
+
+  /**
+   * Updates the outlines and pointers of all peers, adding those of peers who joined
+   * and removing those of peers who left.
+   * @param peers the current state of every other participant
+   */
+  public update(peers: Array<PresenceState>): void {
+    const present = new Set<string>(peers.map((peer: PresenceState) => peer.clientId));
+    Array.from(this.drawn.keys()).forEach((id: string) => {
+      if (!present.has(id)) this.clearPeer(id);
+    });
+    peers.forEach((peer: PresenceState) => this.updatePeer(peer));
+  }
+}
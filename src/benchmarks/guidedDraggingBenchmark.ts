@@ -0,0 +1,92 @@
+import * as go from 'gojs';
+
+import { GuidedDraggingTool } from '../GuidedDraggingTool';
+
+export interface DragBenchmarkResult {
+  nodes: number;
+  indexed: boolean;
+  activateMs: number;  // time to start the drag, including building the index
+  frameMs: number;  // average time of one doDragOver
+}
+
+/**
+ * Make a diagram, without a div, holding a jittered grid of nodes with some links between neighbors.
+ * Node locations are jittered so that some but not all of them line up, as in a hand-drawn diagram.
+ */
+export function makeBenchmarkDiagram(nodeCount: number): go.Diagram {
+  const $ = go.GraphObject.make;
+  const diagram = $(go.Diagram, {
+    draggingTool: new GuidedDraggingTool(),
+    'draggingTool.isSpacingGuidelineEnabled': true,
+    'draggingTool.isContentBoundsGuidelineEnabled': true,
+    'animationManager.isEnabled': false
+  });
+  diagram.nodeTemplate =
+    $(go.Node, 'Auto',
+      new go.Binding('location', 'loc', go.Point.parse),
+      $(go.Shape, 'RoundedRectangle', { width: 80, height: 40, fill: 'white' }));
+
+  const columns = Math.ceil(Math.sqrt(nodeCount));
+  const nodeDataArray: Array<go.ObjectData> = [];
+  const linkDataArray: Array<go.ObjectData> = [];
+  for (let i = 0; i < nodeCount; i++) {
+    const x = (i % columns) * 120 + Math.round(Math.random() * 20);
+    const y = Math.floor(i / columns) * 80 + Math.round(Math.random() * 20);
+    nodeDataArray.push({ key: i, loc: `${x} ${y}` });
+    if (i % columns !== 0) linkDataArray.push({ from: i - 1, to: i });
+  }
+  diagram.model = new go.GraphLinksModel(nodeDataArray, linkDataArray);
+  diagram.ensureBounds();  // measure the parts now, since there's no div to trigger an update
+  return diagram;
+}
+
+/**
+ * Time a simulated drag of one node from the middle of the diagram across its neighbors.
+ * The drag is cancelled afterwards, so the diagram is unchanged.
+ */
+export function benchmarkDrag(diagram: go.Diagram, indexed: boolean, frames: number = 100): DragBenchmarkResult {
+  const tool = diagram.toolManager.draggingTool as GuidedDraggingTool;
+  tool.isGuidelineIndexEnabled = indexed;
+  const node = diagram.findNodeForKey(Math.floor(diagram.model.nodeDataArray.length / 2));
+  if (node === null) throw new Error('The benchmark diagram is empty');
+
+  // see the DraggingTool documentation for starting a drag programmatically
+  diagram.select(node);
+  tool.currentPart = node;
+  diagram.currentTool = tool;
+  const start = performance.now();
+  tool.doActivate();
+  const activateMs = performance.now() - start;
+
+  const origin = node.location.copy();
+  let total = 0;
+  for (let i = 0; i < frames; i++) {
+    node.location = new go.Point(origin.x + i * 3, origin.y + (i % 7));
+    node.ensureBounds();
+    const t = performance.now();
+    tool.doDragOver(node.location, node);
+    total += performance.now() - t;
+  }
+  tool.doCancel();
+
+  return { nodes: diagram.nodes.count, indexed, activateMs, frameMs: total / frames };
+}
+
+/**
+ * Compare drag frame times with and without the guideline index on diagrams of increasing size.
+ * In a development build this is available from the browser console, for instance as
+ * console.table(benchmarkGuidedDragging()).
+ * @param sizes the node counts to try
+ * @param frames how many drag moves to time for each
+ * @return the timings, with and without the index, for each size
+ */
+export function benchmarkGuidedDragging(sizes: Array<number> = [1000, 5000, 10000, 20000], frames: number = 100): Array<DragBenchmarkResult> {
+  const results: Array<DragBenchmarkResult> = [];
+  sizes.forEach((size) => {
+    const diagram = makeBenchmarkDiagram(size);
+    results.push(benchmarkDrag(diagram, false, frames));
+    results.push(benchmarkDrag(diagram, true, frames));
+    diagram.clear();
+  });
+  return results;
+}
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+import * as go from 'gojs';
+
+import { applyChangesToModel, CollabConflict, CollabMessage, compareStamps, createCollabSession } from './collabSession';
+import { createInMemoryRelay, InMemoryRelay } from './transport';
+
+// a model with link keys and undo, as the diagram's model is set up
+function newModel(nodes: Array<go.ObjectData>, links: Array<go.ObjectData>): go.GraphLinksModel {
+  const model = new go.GraphLinksModel();
+  model.linkKeyProperty = 'key';
+  model.nodeDataArray = nodes;
+  model.linkDataArray = links;
+  model.undoManager.isEnabled = true;  // after setting the data, which would otherwise be undoable
+  return model;
+}
+
+interface Peer {
+  model: go.GraphLinksModel;
+  sent: Array<CollabMessage>;
+  conflicts: Array<CollabConflict>;
+}
+
+/**
+ * A participant wired up as the app does it: local transactions are stamped and sent,
+ * and remote deltas are received and applied with applyChangesToModel.
+ */
+function join(relay: InMemoryRelay<CollabMessage>, clientId: string): Peer {
+  const model = newModel([{ key: 0, text: 'Alpha' }, { key: 1, text: 'Beta' }], [{ key: -1, from: 0, to: 1 }]);
+  const session = createCollabSession(clientId);
+  const transport = relay.connect();
+  const peer: Peer = { model, sent: [], conflicts: [] };
+  model.addChangedListener((e: go.ChangedEvent) => {
+    if (!e.isTransactionFinished) return;
+    const changes = model.toIncrementalData(e);
+    if (changes === null) return;
+    const msg = session.stampLocal(changes);
+    peer.sent.push(msg);
+    transport.send(msg);
+  });
+  transport.subscribe((msg: CollabMessage) => {
+    if (msg.type !== 'delta') return;
+    const result = session.receive(msg);
+    peer.conflicts.push(...result.conflicts);
+    if (result.changes !== null) applyChangesToModel(model, result.changes);
+  });
+  return peer;
+}
+
+function setText(peer: Peer, key: go.Key, text: string) {
+  peer.model.commit((m: go.Model) => m.setDataProperty((m as go.GraphLinksModel).findNodeDataForKey(key) as go.ObjectData, 'text', text), 'edit');
+}
+
+function textOf(peer: Peer, key: go.Key) {
+  const data = peer.model.findNodeDataForKey(key);
+  return data === null ? null : data.text;
+}
+
+// the in-memory relay delivers on a timer
+function delivered(): Promise<void> {
+  return new Promise<void>((resolve) => setTimeout(resolve, 10));
+}
+
+describe('compareStamps', () => {
+  it('orders by clock, then by client id', () => {
+    expect(compareStamps({ clock: 1, clientId: 'b' }, { clock: 2, clientId: 'a' })).toBeLessThan(0);
+    expect(compareStamps({ clock: 2, clientId: 'a' }, { clock: 2, clientId: 'b' })).toBeLessThan(0);
+    expect(compareStamps({ clock: 2, clientId: 'b' }, { clock: 2, clientId: 'a' })).toBeGreaterThan(0);
+    expect(compareStamps({ clock: 2, clientId: 'a' }, { clock: 2, clientId: 'a' })).toBe(0);
+  });
+});
+
+describe('collaboration over an in-memory relay', () => {
+  it('shares local changes without sending the applied remote ones back', async () => {
+    const relay = createInMemoryRelay<CollabMessage>();
+    const a = join(relay, 'a');
+    const b = join(relay, 'b');
+    setText(a, 0, 'Alpha 2');
+    a.model.commit((m: go.Model) => (m as go.GraphLinksModel).addNodeData({ key: 2, text: 'Gamma' }), 'add');
+    await delivered();
+    expect(textOf(b, 0)).toBe('Alpha 2');
+    expect(textOf(b, 2)).toBe('Gamma');
+    expect(a.sent).toHaveLength(2);
+    expect(b.sent).toHaveLength(0);
+    expect(b.model.undoManager.canUndo()).toBe(false);
+    expect(a.conflicts.concat(b.conflicts)).toEqual([]);
+  });
+
+  it('converges on the later stamp when two participants edit one node at once, and reports the conflict', async () => {
+    const relay = createInMemoryRelay<CollabMessage>();
+    const a = join(relay, 'a');
+    const b = join(relay, 'b');
+    setText(a, 1, 'from a');
+    setText(b, 1, 'from b');
+    await delivered();
+    // both stamps have clock 1, so the tie goes to the greater client id
+    expect(textOf(a, 1)).toBe('from b');
+    expect(textOf(b, 1)).toBe('from b');
+    const conflict = { kind: 'node', key: 1, winnerClientId: 'b' };
+    expect(a.conflicts).toEqual([{ ...conflict, localClientId: 'a', remoteClientId: 'b' }]);
+    expect(b.conflicts).toEqual([{ ...conflict, localClientId: 'b', remoteClientId: 'a' }]);
+
+    // an edit made after seeing the other's is later, and no conflict
+    setText(a, 1, 'a again');
+    await delivered();
+    expect(textOf(b, 1)).toBe('a again');
+    expect(b.conflicts).toHaveLength(1);
+  });
+
+  it('lets the greater clock win before the client id', async () => {
+    const relay = createInMemoryRelay<CollabMessage>();
+    const a = join(relay, 'a');
+    const b = join(relay, 'b');
+    setText(a, 0, 'Alpha 2');
+    setText(a, 0, 'Alpha 3');
+    setText(b, 0, 'Alpha from b');
+    await delivered();
+    // a's last edit has clock 2 and b's has clock 1
+    expect(textOf(a, 0)).toBe('Alpha 3');
+    expect(textOf(b, 0)).toBe('Alpha 3');
+    expect(b.conflicts.map((c: CollabConflict) => c.winnerClientId)).toEqual(['b', 'a']);
+  });
+});
+
+describe('applyChangesToModel', () => {
+  it('applies changes outside the UndoManager and returns them as made', () => {
+    const model = newModel([{ key: 0, text: 'Alpha', group: 'g' }, { key: 'g', isGroup: true }], [{ key: -1, from: 0, to: 'g' }]);
+    const reported: Array<go.IncrementalData> = [];
+    model.addChangedListener((e: go.ChangedEvent) => {
+      if (!e.isTransactionFinished) return;
+      const changes = model.toIncrementalData(e);
+      if (changes !== null) reported.push(changes);
+    });
+    const applied = applyChangesToModel(model, {
+      modifiedNodeData: [{ key: 0, text: 'Alpha 2' }, { key: 1, text: 'Beta' }],
+      removedLinkKeys: [-1, -9],
+      modelData: { canRelink: false }
+    });
+    expect(reported).toEqual([]);
+    expect(model.undoManager.canUndo()).toBe(false);
+    expect(applied).toEqual({
+      insertedNodeKeys: [1],
+      modifiedNodeData: [{ key: 0, text: 'Alpha 2' }, { key: 1, text: 'Beta' }],
+      removedLinkKeys: [-1],
+      modelData: { canRelink: false }
+    });
+    // the group the remote copy doesn't have was cleared
+    expect(model.findNodeDataForKey(0)).toMatchObject({ key: 0, text: 'Alpha 2', group: undefined });
+  });
+});
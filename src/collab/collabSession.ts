@@ -0,0 +1,239 @@
+import * as go from 'gojs';
+
+import { PresenceMessage } from './presence';
+
+/**
+ * A Lamport timestamp, ordered by clock and then by client id so every participant orders stamps the same way.
+ */
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+/**
+ * The changes from one local transaction, as sent to the other participants.
+ * seen holds the stamp the sender had for each changed entity before making the change,
+ * which is how concurrent edits of the same entity are detected.
+ */
+export interface DeltaMessage {
+  type: 'delta';
+  clientId: string;
+  stamp: Stamp;
+  seen: { [entity: string]: Stamp | null };
+  changes: go.IncrementalData;
+}
+
+/**
+ * Everything sent over a collaboration transport.
+ */
+export type CollabMessage = DeltaMessage | PresenceMessage;
+
+export interface CollabConflict {
+  kind: 'node' | 'link' | 'model';
+  key: go.Key;
+  localClientId: string;
+  remoteClientId: string;
+  winnerClientId: string;
+}
+
+export interface ReceiveResult {
+  changes: go.IncrementalData | null;  // the remote changes that should be applied, or null if none won
+  conflicts: Array<CollabConflict>;
+}
+
+export interface CollabSession {
+  clientId: string;
+  stampLocal: (changes: go.IncrementalData) => DeltaMessage;
+  receive: (msg: DeltaMessage) => ReceiveResult;
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.clientId === b.clientId) return 0;
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+function sameStamp(a: Stamp | null | undefined, b: Stamp | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return compareStamps(a, b) === 0;
+}
+
+// keys are JSON encoded so that the number 1 and the string '1', both valid keys, stay distinct
+const MODEL_ENTITY = 'm';
+const nodeEntity = (key: go.Key) => `n:${JSON.stringify(key)}`;
+const linkEntity = (key: go.Key) => `l:${JSON.stringify(key)}`;
+
+/**
+ * List the entities changed by some incremental changes: every node and link key plus the model data.
+ */
+function changedEntities(changes: go.IncrementalData): Array<string> {
+  const entities = new Set<string>();
+  const addNodes = (keys: Array<go.Key>) => keys.forEach((k: go.Key) => entities.add(nodeEntity(k)));
+  const addLinks = (keys: Array<go.Key>) => keys.forEach((k: go.Key) => entities.add(linkEntity(k)));
+  if (changes.insertedNodeKeys) addNodes(changes.insertedNodeKeys);
+  if (changes.modifiedNodeData) addNodes(changes.modifiedNodeData.map((d: go.ObjectData) => d.key));
+  if (changes.removedNodeKeys) addNodes(changes.removedNodeKeys);
+  if (changes.insertedLinkKeys) addLinks(changes.insertedLinkKeys);
+  if (changes.modifiedLinkData) addLinks(changes.modifiedLinkData.map((d: go.ObjectData) => d.key));
+  if (changes.removedLinkKeys) addLinks(changes.removedLinkKeys);
+  if (changes.modelData) entities.add(MODEL_ENTITY);
+  return Array.from(entities);
+}
+
+/**
+ * Keep only the parts of some incremental changes that touch the given entities.
+ */
+function filterChanges(changes: go.IncrementalData, keep: Set<string>): go.IncrementalData | null {
+  if (keep.size === 0) return null;
+  const keepNode = (k: go.Key) => keep.has(nodeEntity(k));
+  const keepLink = (k: go.Key) => keep.has(linkEntity(k));
+  const filtered: go.IncrementalData = {};
+  if (changes.insertedNodeKeys) filtered.insertedNodeKeys = changes.insertedNodeKeys.filter(keepNode);
+  if (changes.modifiedNodeData) filtered.modifiedNodeData = changes.modifiedNodeData.filter((d: go.ObjectData) => keepNode(d.key));
+  if (changes.removedNodeKeys) filtered.removedNodeKeys = changes.removedNodeKeys.filter(keepNode);
+  if (changes.insertedLinkKeys) filtered.insertedLinkKeys = changes.insertedLinkKeys.filter(keepLink);
+  if (changes.modifiedLinkData) filtered.modifiedLinkData = changes.modifiedLinkData.filter((d: go.ObjectData) => keepLink(d.key));
+  if (changes.removedLinkKeys) filtered.removedLinkKeys = changes.removedLinkKeys.filter(keepLink);
+  if (changes.modelData && keep.has(MODEL_ENTITY)) filtered.modelData = changes.modelData;
+  return filtered;
+}
+
+function describeEntity(entity: string): Pick<CollabConflict, 'kind' | 'key'> {
+  if (entity === MODEL_ENTITY) return { kind: 'model', key: undefined };
+  return { kind: entity.startsWith('n:') ? 'node' : 'link', key: JSON.parse(entity.substring(2)) };
+}
+
+/**
+ * Track the state needed to merge changes between participants editing the same diagram.
+ * Each node, link and the model data carries the stamp of its last change, and a remote change
+ * is only applied if its stamp is later, so every participant ends up with the same data
+ * whatever order concurrent changes arrive in. When a remote change was made without having seen
+ * the latest local change to the same entity, the two were concurrent and a conflict is reported.
+ * @param clientId this participant's unique id
+ */
+export function createCollabSession(clientId: string): CollabSession {
+  let clock = 0;
+  const stamps = new Map<string, Stamp>();
+
+  return {
+    clientId,
+    stampLocal: (changes: go.IncrementalData) => {
+      clock++;
+      const stamp: Stamp = { clock, clientId };
+      const seen: { [entity: string]: Stamp | null } = {};
+      changedEntities(changes).forEach((entity: string) => {
+        seen[entity] = stamps.get(entity) || null;
+        stamps.set(entity, stamp);
+      });
+      return { type: 'delta', clientId, stamp, seen, changes };
+    },
+    receive: (msg: DeltaMessage) => {
+      if (msg.clientId === clientId) return { changes: null, conflicts: [] };
+      clock = Math.max(clock, msg.stamp.clock);
+      const winners = new Set<string>();
+      const conflicts: Array<CollabConflict> = [];
+      changedEntities(msg.changes).forEach((entity: string) => {
+        const local = stamps.get(entity);
+        const remoteWins = !local || compareStamps(msg.stamp, local) > 0;
+        if (remoteWins) {
+          winners.add(entity);
+          stamps.set(entity, msg.stamp);
+        }
+        if (local && !sameStamp(local, msg.seen[entity])) {
+          conflicts.push({
+            ...describeEntity(entity),
+            localClientId: local.clientId,
+            remoteClientId: msg.clientId,
+            winnerClientId: remoteWins ? msg.clientId : local.clientId
+          });
+        }
+      });
+      return { changes: filterChanges(msg.changes, winners), conflicts };
+    }
+  };
+}
+
+/**
+ * Modified data holds every property, so any the local copy has but the remote one lacks were removed,
+ * like a node's group when it was dragged out of it. Those would be lost by JSON transports,
+ * which drop undefined values, so clear them explicitly.
+ */
+function replaceDataProperties(model: go.GraphLinksModel, existing: go.ObjectData, data: go.ObjectData): void {
+  model.assignAllDataProperties(existing, data);
+  Object.keys(existing).forEach((prop: string) => {
+    if (!prop.startsWith('__') && !(prop in data) && existing[prop] !== undefined) model.setDataProperty(existing, prop, undefined);
+  });
+}
+
+/**
+ * Apply remote changes to a GoJS model in a transaction that skips the UndoManager,
+ * so a user's undo only reverts their own changes.
+ * Modified data that no longer exists locally is added back, since the remote change is the later one.
+ * Skipping the UndoManager also means Model.toIncrementalData reports nothing for this transaction,
+ * so ReactDiagram doesn't call onModelChange; instead this returns the changes as made to the model,
+ * to be applied to React state with skipsDiagramUpdate set.
+ * @return the changes made, with copies of the resulting data, as toIncrementalData would describe them
+ */
+export function applyChangesToModel(model: go.GraphLinksModel, changes: go.IncrementalData): go.IncrementalData {
+  const insertedNodeKeys: Array<go.Key> = [];
+  const modifiedNodeKeys: Array<go.Key> = [];
+  const removedNodeKeys: Array<go.Key> = [];
+  const insertedLinkKeys: Array<go.Key> = [];
+  const modifiedLinkKeys: Array<go.Key> = [];
+  const removedLinkKeys: Array<go.Key> = [];
+  model.commit((m: go.Model) => {
+    const glm = m as go.GraphLinksModel;
+    (changes.modifiedNodeData || []).forEach((nd: go.ObjectData) => {
+      const existing = glm.findNodeDataForKey(nd.key);
+      if (existing) {
+        replaceDataProperties(glm, existing, nd);
+      } else {
+        glm.addNodeData(glm.cloneDeep(nd));
+        insertedNodeKeys.push(nd.key);
+      }
+      modifiedNodeKeys.push(nd.key);
+    });
+    (changes.modifiedLinkData || []).forEach((ld: go.ObjectData) => {
+      const existing = glm.findLinkDataForKey(ld.key);
+      if (existing) {
+        replaceDataProperties(glm, existing, ld);
+      } else {
+        glm.addLinkData(glm.cloneDeep(ld));
+        insertedLinkKeys.push(ld.key);
+      }
+      modifiedLinkKeys.push(ld.key);
+    });
+    (changes.removedLinkKeys || []).forEach((key: go.Key) => {
+      const existing = glm.findLinkDataForKey(key);
+      if (!existing) return;
+      glm.removeLinkData(existing);
+      removedLinkKeys.push(key);
+    });
+    (changes.removedNodeKeys || []).forEach((key: go.Key) => {
+      const existing = glm.findNodeDataForKey(key);
+      if (!existing) return;
+      glm.removeNodeData(existing);
+      removedNodeKeys.push(key);
+    });
+    if (changes.modelData) glm.assignAllDataProperties(glm.modelData, changes.modelData);
+  }, null);  // a null transaction name skips the UndoManager
+
+  // copies of the data as it ended up, leaving out any that a later removal in the same changes took away again
+  const copies = (keys: Array<go.Key>, find: (key: go.Key) => go.ObjectData | null) => {
+    const result: Array<go.ObjectData> = [];
+    keys.forEach((key: go.Key) => {
+      const data = find(key);
+      if (data) result.push(model.cloneDeep(data));
+    });
+    return result;
+  };
+  const applied: go.IncrementalData = {};
+  if (insertedNodeKeys.length > 0) applied.insertedNodeKeys = insertedNodeKeys;
+  if (modifiedNodeKeys.length > 0) applied.modifiedNodeData = copies(modifiedNodeKeys, (key: go.Key) => model.findNodeDataForKey(key));
+  if (removedNodeKeys.length > 0) applied.removedNodeKeys = removedNodeKeys;
+  if (insertedLinkKeys.length > 0) applied.insertedLinkKeys = insertedLinkKeys;
+  if (modifiedLinkKeys.length > 0) applied.modifiedLinkData = copies(modifiedLinkKeys, (key: go.Key) => model.findLinkDataForKey(key));
+  if (removedLinkKeys.length > 0) applied.removedLinkKeys = removedLinkKeys;
+  if (changes.modelData) applied.modelData = model.cloneDeep(model.modelData);
+  return applied;
+}
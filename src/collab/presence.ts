@@ -0,0 +1,112 @@
+import * as go from 'gojs';
+
+import { CollabTransport } from './transport';
+
+/**
+ * What one participant is looking at: their selection and, if over the diagram, their mouse pointer
+ * in document coordinates.
+ */
+export interface PresenceState {
+  clientId: string;
+  name: string;
+  color: string;
+  nodeKeys: Array<go.Key>;
+  linkKeys: Array<go.Key>;
+  pointer: { x: number, y: number } | null;
+}
+
+export interface PresenceMessage {
+  type: 'presence' | 'presence-leave';
+  state: PresenceState;
+}
+
+/**
+ * Whether a message on a shared transport is about presence, as opposed to another kind such as a delta.
+ */
+export function isPresenceMessage(msg: { type: string }): msg is PresenceMessage {
+  return msg.type === 'presence' || msg.type === 'presence-leave';
+}
+
+/**
+ * A source of other participants' presence and a sink for our own.
+ */
+export interface PresenceFeed {
+  publish: (state: PresenceState) => void;
+  subscribe: (listener: (peers: Array<PresenceState>) => void) => () => void;
+  close: () => void;
+}
+
+const PALETTE = ['#E53935', '#8E24AA', '#1E88E5', '#00897B', '#7CB342', '#FB8C00', '#6D4C41', '#D81B60'];
+
+/**
+ * Pick a stable color for a participant.
+ */
+export function colorForClient(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+}
+
+/**
+ * A PresenceFeed over a collaboration transport. Our state is re-sent periodically as a heartbeat,
+ * and peers that haven't been heard from for a while are dropped, so closed tabs disappear
+ * even if they couldn't say goodbye.
+ * @param transport the channel shared with the other participants; messages of other types are ignored
+ * @param heartbeat milliseconds between re-sends of our state
+ * @param timeout milliseconds of silence after which a peer is dropped
+ */
+export function createTransportPresenceFeed<M extends { type: string }>(transport: CollabTransport<M | PresenceMessage>,
+                                                                         heartbeat: number = 5000, timeout: number = 15000): PresenceFeed {
+  const peers = new Map<string, { state: PresenceState, seenAt: number }>();
+  const listeners = new Set<(peers: Array<PresenceState>) => void>();
+  let last: PresenceState | null = null;
+
+  const notify = () => {
+    const arr: Array<PresenceState> = [];
+    peers.forEach((p) => arr.push(p.state));
+    listeners.forEach((l) => l(arr));
+  };
+
+  const unsubscribe = transport.subscribe((msg: M | PresenceMessage) => {
+    if (!isPresenceMessage(msg)) return;
+    if (last !== null && msg.state.clientId === last.clientId) return;  // relays may echo our own messages
+    if (msg.type === 'presence') {
+      peers.set(msg.state.clientId, { state: msg.state, seenAt: Date.now() });
+      notify();
+    } else if (msg.type === 'presence-leave') {
+      if (peers.delete(msg.state.clientId)) notify();
+    }
+  });
+
+  const timer = setInterval(() => {
+    if (last !== null) transport.send({ type: 'presence', state: last });
+    const now = Date.now();
+    let changed = false;
+    peers.forEach((p, id) => {
+      if (now - p.seenAt > timeout) {
+        peers.delete(id);
+        changed = true;
+      }
+    });
+    if (changed) notify();
+  }, heartbeat);
+
+  return {
+    publish: (state: PresenceState) => {
+      last = state;
+      transport.send({ type: 'presence', state });
+    },
+    subscribe: (listener: (peers: Array<PresenceState>) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    close: () => {
+      if (last !== null) transport.send({ type: 'presence-leave', state: last });
+      clearInterval(timer);
+      unsubscribe();
+      listeners.clear();
+    }
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * A channel that delivers messages to every other participant in a session.
+ * Messages a participant sends are not delivered back to it.
+ */
+export interface CollabTransport<M> {
+  send: (msg: M) => void;
+  subscribe: (listener: (msg: M) => void) => () => void;
+  close: () => void;
+}
+
+export interface InMemoryRelay<M> {
+  connect: () => CollabTransport<M>;
+}
+
+/**
+ * A relay that lives in memory, for tests and for running several diagrams on one page.
+ * Messages are delivered asynchronously, in the order they were sent, like a real network would.
+ */
+export function createInMemoryRelay<M>(): InMemoryRelay<M> {
+  const endpoints = new Set<Set<(msg: M) => void>>();
+  return {
+    connect: () => {
+      const listeners = new Set<(msg: M) => void>();
+      endpoints.add(listeners);
+      return {
+        send: (msg: M) => {
+          // copy the message so participants never share objects
+          const text = JSON.stringify(msg);
+          endpoints.forEach((other: Set<(msg: M) => void>) => {
+            if (other === listeners) return;
+            setTimeout(() => other.forEach((l: (msg: M) => void) => l(JSON.parse(text))), 0);
+          });
+        },
+        subscribe: (listener: (msg: M) => void) => {
+          listeners.add(listener);
+          return () => { listeners.delete(listener); };
+        },
+        close: () => {
+          endpoints.delete(listeners);
+          listeners.clear();
+        }
+      };
+    }
+  };
+}
+
+/**
+ * A transport over a WebSocket to a relay that forwards each JSON message to every other connected client.
+ * Messages sent before the socket opens are queued.
+ * @param url the relay's URL, such as ws://localhost:8080
+ */
+export function createWebSocketTransport<M>(url: string): CollabTransport<M> {
+  const socket = new WebSocket(url);
+  const listeners = new Set<(msg: M) => void>();
+  let queue: Array<string> = [];
+
+  socket.addEventListener('open', () => {
+    queue.forEach((text: string) => socket.send(text));
+    queue = [];
+  });
+  socket.addEventListener('message', (e: MessageEvent) => {
+    let msg: M;
+    try {
+      msg = JSON.parse(e.data);
+    } catch (ex) {
+      return;  // ignore anything that isn't one of our messages
+    }
+    listeners.forEach((l: (msg: M) => void) => l(msg));
+  });
+
+  return {
+    send: (msg: M) => {
+      const text = JSON.stringify(msg);
+      if (socket.readyState === WebSocket.OPEN) socket.send(text);
+      else queue.push(text);
+    },
+    subscribe: (listener: (msg: M) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    close: () => {
+      listeners.clear();
+      socket.close();
+    }
+  };
+}
+
+/**
+ * A transport between browser tabs of the same origin, so collaboration can be tried without a server.
+ * @param name the channel name; tabs using the same name share a session
+ */
+export function createBroadcastChannelTransport<M>(name: string): CollabTransport<M> {
+  const channel = new BroadcastChannel(name);
+  const listeners = new Set<(msg: M) => void>();
+  channel.onmessage = (e: MessageEvent) => {
+    listeners.forEach((l: (msg: M) => void) => l(e.data));
+  };
+  return {
+    send: (msg: M) => channel.postMessage(msg),
+    subscribe: (listener: (msg: M) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    close: () => {
+      listeners.clear();
+      channel.close();
+    }
+  };
+}
@@ -0,0 +1,197 @@
+import * as go from 'gojs';
+
+import { commitDataChanges } from '../model/dataEdits';
+import { AlignEdge, alignableParts, alignParts, AlignReference, DistributeAxis, distributeParts } from '../model/alignment';
+
+/**
+ * Something a user can do to the diagram, from a key binding, the command palette or a toolbar button.
+ */
+export interface EditorCommand {
+  id: string;
+  label: string;  // shown in the command palette, such as 'Align left'
+  canRun: (handler: EditorCommandHandler) => boolean;
+  run: (handler: EditorCommandHandler) => void;
+}
+
+/**
+ * Shortcuts, such as 'Ctrl+Shift+L' or 'Alt+Left', to command ids. Keys are named as in go.InputEvent.key,
+ * modifiers come in the order Ctrl, Alt, Shift, and Cmd on a Mac counts as Ctrl.
+ */
+export type KeyBindings = { [shortcut: string]: string };
+
+function shortcut(key: string, ctrl: boolean, alt: boolean, shift: boolean): string {
+  return [ctrl ? 'Ctrl' : '', alt ? 'Alt' : '', shift ? 'Shift' : '', key].filter((s: string) => s !== '').join('+');
+}
+
+/**
+ * The shortcut of a key press in the diagram.
+ */
+export function shortcutOfInput(e: go.InputEvent): string {
+  return shortcut(e.key, e.control || e.meta, e.alt, e.shift);
+}
+
+// DOM key names that GoJS names differently
+const domKeyNames: { [key: string]: string } = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  Delete: 'Del',
+  Escape: 'Esc',
+  ' ': 'Space'
+};
+
+/**
+ * The shortcut of a key press anywhere on the page, named as it would be in the diagram.
+ */
+export function shortcutOfKeyboardEvent(e: KeyboardEvent): string {
+  const key = domKeyNames[e.key] || (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  return shortcut(key, e.ctrlKey || e.metaKey, e.altKey, e.shiftKey);
+}
+
+/**
+ * A CommandHandler that adds editing commands beyond the built-in ones, each made in one named transaction
+ * so that it is undone as a whole, and runs them from configurable key bindings before the usual keys.
+ */
+export class EditorCommandHandler extends go.CommandHandler {
+  public commands: Array<EditorCommand> = [];
+  public keyBindings: KeyBindings = {};
+  public alignReference: AlignReference = 'selection';  // what the align commands line the selection up with
+
+  public findCommand(id: string): EditorCommand | null {
+    return this.commands.find((c: EditorCommand) => c.id === id) || null;
+  }
+
+  /**
+   * Run a command by id, for toolbar buttons and the command palette.
+   * @return false if there is no such command or it can't run now
+   */
+  public runCommand(id: string): boolean {
+    const command = this.findCommand(id);
+    if (command === null || !command.canRun(this)) return false;
+    command.run(this);
+    return true;
+  }
+
+  public canRunCommand(id: string): boolean {
+    const command = this.findCommand(id);
+    return command !== null && command.canRun(this);
+  }
+
+  /**
+   * Run the command bound to the key pressed, if any and if it can run; otherwise handle the key as usual.
+   */
+  public doKeyDown(): void {
+    const id = this.keyBindings[shortcutOfInput(this.diagram.lastInput)];
+    if (id !== undefined && this.runCommand(id)) {
+      this.diagram.lastInput.bubbles = false;
+      return;
+    }
+    super.doKeyDown();
+  }
+
+  private selectedNodes(): Array<go.Node> {
+    const nodes: Array<go.Node> = [];
+    this.diagram.selection.each((p: go.Part) => {
+      if (p instanceof go.Node && !(p instanceof go.Group)) nodes.push(p);
+    });
+    return nodes;
+  }
+
+  public canCreateNode(): boolean {
+    return this.diagram.allowInsert && !this.diagram.isReadOnly;
+  }
+
+  /**
+   * Add a node like those made by clicking, at the mouse if it is over the diagram or else in the middle of the view,
+   * select it and start editing its text.
+   */
+  public createNode(): void {
+    const diagram = this.diagram;
+    const archetype = diagram.toolManager.clickCreatingTool.archetypeNodeData || { text: 'new node' };
+    const viewport = diagram.viewportBounds;
+    const mouse = diagram.lastInput.documentPoint;
+    const at = viewport.containsPoint(mouse) ? mouse : viewport.center;
+    diagram.commit((d: go.Diagram) => {
+      const data = d.model.copyNodeData(archetype);
+      if (data === null) return;
+      d.model.addNodeData(data);
+      const node = d.findPartForData(data);
+      if (node === null) return;
+      node.location = at;
+      d.select(node);
+    }, 'Create node');
+    if (this.canEditTextBlock()) this.editTextBlock();
+  }
+
+  public canConnectSelection(): boolean {
+    return this.diagram.allowLink && !this.diagram.isReadOnly && this.selectedNodes().length >= 2;
+  }
+
+  /**
+   * Link the selected nodes one after another, in the order they were selected, skipping pairs already linked that way.
+   */
+  public connectSelection(): void {
+    const nodes = this.selectedNodes();
+    this.diagram.commit((d: go.Diagram) => {
+      const model = d.model as go.GraphLinksModel;
+      for (let i = 1; i < nodes.length; i++) {
+        const from = nodes[i - 1];
+        const to = nodes[i];
+        if (from.findLinksTo(to).count > 0) continue;
+        model.addLinkData({ from: from.key, to: to.key });
+      }
+    }, 'Connect nodes');
+  }
+
+  public canSetSelectionColor(): boolean {
+    return !this.diagram.isReadOnly && this.diagram.selection.any((p: go.Part) => p instanceof go.Node);
+  }
+
+  /**
+   * Give every selected node and group the same color.
+   */
+  public setSelectionColor(color: string): void {
+    const targets: Array<{ kind: 'node'; data: { key: go.Key } }> = [];
+    this.diagram.selection.each((p: go.Part) => {
+      if (p instanceof go.Node) targets.push({ kind: 'node', data: { key: p.key } });
+    });
+    commitDataChanges(this.diagram, targets, { color }, 'Change color');
+  }
+
+  public canRunLayout(): boolean {
+    return !this.diagram.isReadOnly && this.diagram.nodes.count > 0;
+  }
+
+  /**
+   * Lay out the whole diagram again with its current layout, moving nodes that were moved by hand.
+   */
+  public runLayout(): void {
+    this.diagram.commit((d: go.Diagram) => d.layoutDiagram(true), 'Run layout');
+  }
+
+  public canAlignSelection(): boolean {
+    return this.diagram.allowMove && !this.diagram.isReadOnly && alignableParts(this.diagram.selection).length >= 2;
+  }
+
+  /**
+   * Line up the selected nodes along an edge or center line of their combined bounds, or of the node selected first,
+   * depending on alignReference. Selected members of selected groups move with their group.
+   */
+  public alignSelection(edge: AlignEdge): void {
+    const parts = alignableParts(this.diagram.selection);
+    this.diagram.commit(() => alignParts(parts, edge, this.alignReference), `Align ${edge}`);
+  }
+
+  public canDistributeSelection(): boolean {
+    return this.diagram.allowMove && !this.diagram.isReadOnly && alignableParts(this.diagram.selection).length >= 3;
+  }
+
+  /**
+   * Space the selected nodes evenly across the span of their bounds.
+   */
+  public distributeSelection(axis: DistributeAxis): void {
+    const parts = alignableParts(this.diagram.selection);
+    this.diagram.commit(() => distributeParts(parts, axis), `Distribute ${axis}ly`);
+  }
+}
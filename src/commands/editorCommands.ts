@@ -0,0 +1,82 @@
+import { defaultExportOptions, downloadDiagramImage } from '../utils/imageExport';
+import { EditorCommand, EditorCommandHandler, KeyBindings } from './EditorCommandHandler';
+
+// the colors offered by the color commands, in the order of their number keys
+export const commandColors = ['white', 'lightblue', 'lightgreen', 'lightyellow', 'orange', 'pink'];
+
+const alignCommands: Array<EditorCommand> = (['left', 'center', 'right', 'top', 'middle', 'bottom'] as const).map((edge) => ({
+  id: `align-${edge}`,
+  label: `Align ${edge}`,
+  canRun: (h: EditorCommandHandler) => h.canAlignSelection(),
+  run: (h: EditorCommandHandler) => h.alignSelection(edge)
+}));
+
+const distributeCommands: Array<EditorCommand> = (['horizontal', 'vertical'] as const).map((axis) => ({
+  id: `distribute-${axis}`,
+  label: `Distribute ${axis}ly`,
+  canRun: (h: EditorCommandHandler) => h.canDistributeSelection(),
+  run: (h: EditorCommandHandler) => h.distributeSelection(axis)
+}));
+
+const colorCommands: Array<EditorCommand> = commandColors.map((color: string) => ({
+  id: `color-${color}`,
+  label: `Color ${color}`,
+  canRun: (h: EditorCommandHandler) => h.canSetSelectionColor(),
+  run: (h: EditorCommandHandler) => h.setSelectionColor(color)
+}));
+
+/**
+ * Every command of the editor, in the order the command palette lists them.
+ */
+export const editorCommands: Array<EditorCommand> = [
+  { id: 'create-node', label: 'Create node', canRun: (h: EditorCommandHandler) => h.canCreateNode(), run: (h: EditorCommandHandler) => h.createNode() },
+  { id: 'connect', label: 'Connect selected nodes', canRun: (h: EditorCommandHandler) => h.canConnectSelection(), run: (h: EditorCommandHandler) => h.connectSelection() },
+  { id: 'edit-text', label: 'Edit text', canRun: (h: EditorCommandHandler) => h.canEditTextBlock(), run: (h: EditorCommandHandler) => h.editTextBlock() },
+  { id: 'delete', label: 'Delete selection', canRun: (h: EditorCommandHandler) => h.canDeleteSelection(), run: (h: EditorCommandHandler) => h.deleteSelection() },
+  { id: 'group', label: 'Group selection', canRun: (h: EditorCommandHandler) => h.canGroupSelection(), run: (h: EditorCommandHandler) => h.groupSelection() },
+  { id: 'ungroup', label: 'Ungroup selection', canRun: (h: EditorCommandHandler) => h.canUngroupSelection(), run: (h: EditorCommandHandler) => h.ungroupSelection() },
+  ...alignCommands,
+  ...distributeCommands,
+  ...colorCommands,
+  { id: 'layout', label: 'Run layout', canRun: (h: EditorCommandHandler) => h.canRunLayout(), run: (h: EditorCommandHandler) => h.runLayout() },
+  { id: 'zoom-fit', label: 'Zoom to fit', canRun: (h: EditorCommandHandler) => h.canZoomToFit(), run: (h: EditorCommandHandler) => h.zoomToFit() },
+  { id: 'select-all', label: 'Select all', canRun: (h: EditorCommandHandler) => h.canSelectAll(), run: (h: EditorCommandHandler) => h.selectAll() },
+  { id: 'undo', label: 'Undo', canRun: (h: EditorCommandHandler) => h.canUndo(), run: (h: EditorCommandHandler) => h.undo() },
+  { id: 'redo', label: 'Redo', canRun: (h: EditorCommandHandler) => h.canRedo(), run: (h: EditorCommandHandler) => h.redo() },
+  {
+    id: 'export',
+    label: 'Export as PNG',
+    canRun: () => true,
+    run: (h: EditorCommandHandler) => {
+      downloadDiagramImage(h.diagram, defaultExportOptions).catch((ex: Error) => window.alert(ex.message));
+    }
+  }
+];
+
+/**
+ * The keys for the commands that GoJS doesn't already give keys to. Plain letters are safe,
+ * since typing into a node's text goes to the text editor rather than the diagram.
+ */
+export const defaultKeyBindings: KeyBindings = {
+  'N': 'create-node',
+  'C': 'connect',
+  'Alt+Left': 'align-left',
+  'Alt+Right': 'align-right',
+  'Alt+Up': 'align-top',
+  'Alt+Down': 'align-bottom',
+  'Alt+C': 'align-center',
+  'Alt+M': 'align-middle',
+  'Alt+Shift+H': 'distribute-horizontal',
+  'Alt+Shift+V': 'distribute-vertical',
+  ...Object.fromEntries(commandColors.map((color: string, i: number) => [String(i + 1), `color-${color}`])),
+  'L': 'layout',
+  'F': 'zoom-fit',
+  'Ctrl+Shift+E': 'export'
+};
+
+/**
+ * The shortcut bound to a command, for showing beside it, or undefined if it has none.
+ */
+export function shortcutFor(bindings: KeyBindings, id: string): string | undefined {
+  return Object.keys(bindings).find((shortcut: string) => bindings[shortcut] === id);
+}
@@ -0,0 +1,54 @@
+import * as go from 'gojs';
+
+import { useEffect, useState } from 'react';
+
+import { EditorCommandHandler, KeyBindings } from '../commands/EditorCommandHandler';
+import { AlignReference } from '../model/alignment';
+import { CommandButton } from './CommandButton';
+
+import './Inspector.css';
+
+interface AlignmentToolbarProps {
+  diagram: go.Diagram | null;
+  keyBindings: KeyBindings;
+}
+
+const buttons: Array<{ id: string; text: string }> = [
+  { id: 'align-left', text: '⇤' },
+  { id: 'align-center', text: '↔' },
+  { id: 'align-right', text: '⇥' },
+  { id: 'align-top', text: '⤒' },
+  { id: 'align-middle', text: '↕' },
+  { id: 'align-bottom', text: '⤓' },
+  { id: 'distribute-horizontal', text: '⋯' },
+  { id: 'distribute-vertical', text: '⋮' }
+];
+
+/**
+ * Buttons to align and distribute the selected nodes, and a choice of what they are aligned to,
+ * which also applies to the align keys and the command palette.
+ * Each button runs its command in one transaction, so the moved nodes' locations reach React state
+ * as one incremental change and are undone together.
+ */
+export function AlignmentToolbar(props: AlignmentToolbarProps) {
+  const [reference, setReference] = useState<AlignReference>('selection');
+  const handler = props.diagram === null ? null : props.diagram.commandHandler as EditorCommandHandler;
+
+  useEffect(() => {
+    if (handler !== null) handler.alignReference = reference;
+  }, [handler, reference]);
+
+  return (
+    <div className='inspector command-toolbar alignment-toolbar'>
+      {buttons.map(({ id, text }) =>
+        <CommandButton key={id} handler={handler} keyBindings={props.keyBindings} id={id} text={text} />)}
+      <label>
+        Align to
+        <select value={reference} onChange={(e) => setReference(e.target.value as AlignReference)}>
+          <option value='selection'>selection bounds</option>
+          <option value='first'>first selected</option>
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import * as go from 'gojs';
+
+import { AnalysisItem, AnalysisKind, GraphAnalysis } from '../hooks/useGraphAnalysis';
+
+import './Inspector.css';
+
+interface AnalysisPanelProps {
+  analysis: GraphAnalysis;
+  selectedNodes: Array<go.Key>;  // in the order they were selected
+}
+
+/**
+ * Buttons to analyze the diagram as a dependency graph, and what was found.
+ * A shortest path goes from the first of two selected nodes to the second; reachability starts from every selected node.
+ */
+export function AnalysisPanel(props: AnalysisPanelProps) {
+  const { analysis, selectedNodes } = props;
+  const run = (kind: AnalysisKind) => analysis.run(kind, selectedNodes);
+
+  return (
+    <div className='inspector analysis-panel'>
+      <button disabled={selectedNodes.length !== 2} title='Select two nodes' onClick={() => run('path')}>Shortest path</button>
+      <button disabled={selectedNodes.length === 0} title='Select one or more nodes' onClick={() => run('downstream')}>Downstream</button>
+      <button disabled={selectedNodes.length === 0} title='Select one or more nodes' onClick={() => run('upstream')}>Upstream</button>
+      <button onClick={() => run('cycles')}>Cycles</button>
+      <button onClick={() => run('order')}>Topological order</button>
+      {analysis.result &&
+        <div>
+          <span>{analysis.result.message}</span>
+          <button onClick={analysis.clear}>Clear</button>
+          <ol>
+            {analysis.result.items.map((item: AnalysisItem, idx: number) =>
+              <li key={idx} className={idx === analysis.shown ? 'current' : undefined} onClick={() => analysis.show(idx)}>
+                {item.title}
+              </li>
+            )}
+          </ol>
+        </div>}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { CollabConflict } from '../collab/collabSession';
+import { PresenceState } from '../collab/presence';
+
+import './Inspector.css';
+
+interface CollabStatusProps {
+  clientId: string;
+  peers: Array<PresenceState>;
+  conflicts: Array<CollabConflict>;
+  onDismiss: () => void;
+}
+
+function describe(c: CollabConflict, clientId: string): string {
+  const who = (id: string) => id === clientId ? 'you' : id;
+  const what = c.kind === 'model' ? 'The diagram settings were' : `${c.kind === 'node' ? 'Node' : 'Link'} ${c.key} was`;
+  return `${what} changed by ${who(c.localClientId)} and ${who(c.remoteClientId)} at the same time; ${who(c.winnerClientId)} won.`;
+}
+
+/**
+ * Shows this participant's id, who else is connected, and any edits that conflicted with another participant's.
+ */
+export function CollabStatus(props: CollabStatusProps) {
+  return (
+    <div className='inspector collab-status'>
+      <span className='mixed'>Collaborating as {props.clientId}</span>
+      {props.peers.length > 0 &&
+        <ul className='peers'>
+          {props.peers.map((p: PresenceState) =>
+            <li key={p.clientId} style={{ color: p.color }}>{p.name}</li>
+          )}
+        </ul>}
+      {props.conflicts.length > 0 &&
+        <div className='violations'>
+          <ul>
+            {props.conflicts.map((c: CollabConflict, idx: number) =>
+              <li key={idx}>{describe(c, props.clientId)}</li>
+            )}
+          </ul>
+          <button onClick={props.onDismiss}>Dismiss</button>
+        </div>}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { EditorCommandHandler, KeyBindings } from '../commands/EditorCommandHandler';
+import { shortcutFor } from '../commands/editorCommands';
+
+interface CommandButtonProps {
+  handler: EditorCommandHandler | null;
+  keyBindings: KeyBindings;
+  id: string;  // the command to run
+  text?: string;  // shown instead of the command's label, which is then only the button's tooltip and accessible name
+}
+
+/**
+ * A button that runs an editor command through the diagram's command handler, like its key does,
+ * and is disabled when the command can't run. Nothing is shown for a command the handler doesn't have.
+ */
+export function CommandButton(props: CommandButtonProps) {
+  const { handler, id } = props;
+  const command = handler && handler.findCommand(id);
+  if (handler === null || !command) return null;
+  const shortcut = shortcutFor(props.keyBindings, id);
+  return (
+    <button
+      disabled={!command.canRun(handler)}
+      title={shortcut ? `${command.label} (${shortcut})` : command.label}
+      aria-label={props.text === undefined ? undefined : command.label}
+      onClick={() => handler.runCommand(id)}>
+      {props.text === undefined ? command.label : props.text}
+    </button>
+  );
+};
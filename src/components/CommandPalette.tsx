@@ -0,0 +1,107 @@
+import * as go from 'gojs';
+
+import { useEffect, useState } from 'react';
+
+import { EditorCommand, EditorCommandHandler, KeyBindings, shortcutOfKeyboardEvent } from '../commands/EditorCommandHandler';
+import { shortcutFor } from '../commands/editorCommands';
+
+import './Inspector.css';
+
+interface CommandPaletteProps {
+  diagram: go.Diagram | null;
+  keyBindings: KeyBindings;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcut?: string;  // opens the palette from anywhere on the page, 'Ctrl+K' by default
+}
+
+function matches(command: EditorCommand, filter: string): boolean {
+  const label = command.label.toLowerCase();
+  return filter.toLowerCase().split(/\s+/).every((word: string) => label.includes(word));
+}
+
+/**
+ * A searchable list of every editor command, run through the diagram's command handler.
+ * Arrow keys choose a command, Enter runs it and Escape closes the palette.
+ */
+export function CommandPalette(props: CommandPaletteProps) {
+  const { diagram, open, onOpenChange } = props;
+  const paletteShortcut = props.shortcut || 'Ctrl+K';
+  const [filter, setFilter] = useState<string>('');
+  const [active, setActive] = useState<number>(0);
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => {
+      if (shortcutOfKeyboardEvent(e) !== paletteShortcut) return;
+      e.preventDefault();
+      setFilter('');
+      setActive(0);
+      onOpenChange(true);
+    };
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, [paletteShortcut, onOpenChange]);
+
+  if (!open || diagram === null) return null;
+  const handler = diagram.commandHandler as EditorCommandHandler;
+  const shown = handler.commands.filter((c: EditorCommand) => matches(c, filter));
+
+  const close = () => {
+    onOpenChange(false);
+    diagram.focus();
+  };
+
+  const run = (command: EditorCommand) => {
+    close();
+    handler.runCommand(command.id);
+  };
+
+  const handleKeyDown = (e: any) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        setActive(Math.min(active + 1, shown.length - 1));
+        break;
+      case 'ArrowUp':
+        setActive(Math.max(active - 1, 0));
+        break;
+      case 'Enter':
+        if (shown[active] && shown[active].canRun(handler)) run(shown[active]);
+        break;
+      case 'Escape':
+        close();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className='command-palette-backdrop' onClick={close}>
+      <div className='inspector command-palette' onClick={(e: any) => e.stopPropagation()}>
+        <input
+          autoFocus
+          placeholder='Type a command'
+          value={filter}
+          onChange={(e: any) => {
+            setFilter(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={handleKeyDown}>
+        </input>
+        <ul>
+          {shown.map((c: EditorCommand, idx: number) => {
+            const enabled = c.canRun(handler);
+            const classes = [idx === active ? 'current' : '', enabled ? '' : 'disabled'].filter((s: string) => s !== '');
+            return (
+              <li key={c.id} className={classes.join(' ')} onMouseEnter={() => setActive(idx)} onClick={() => enabled && run(c)}>
+                {c.label}
+                <span className='shortcut'>{shortcutFor(props.keyBindings, c.id)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
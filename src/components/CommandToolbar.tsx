@@ -0,0 +1,30 @@
+import * as go from 'gojs';
+
+import { EditorCommandHandler, KeyBindings } from '../commands/EditorCommandHandler';
+import { CommandButton } from './CommandButton';
+
+import './Inspector.css';
+
+interface CommandToolbarProps {
+  diagram: go.Diagram | null;
+  keyBindings: KeyBindings;
+  commands: Array<string>;  // the ids of the commands to show, in order
+  onOpenPalette: () => void;
+}
+
+/**
+ * Buttons for some of the editor commands, run through the diagram's command handler like their keys,
+ * and one to open the command palette for the rest.
+ * Whether each can run is checked as the toolbar renders, which it does whenever the selection changes.
+ */
+export function CommandToolbar(props: CommandToolbarProps) {
+  const handler = props.diagram === null ? null : props.diagram.commandHandler as EditorCommandHandler;
+
+  return (
+    <div className='inspector command-toolbar'>
+      {props.commands.map((id: string) =>
+        <CommandButton key={id} handler={handler} keyBindings={props.keyBindings} id={id} />)}
+      <button title='Ctrl+K' onClick={props.onOpenPalette}>Commands…</button>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { useRef, useState } from 'react';
+
+import './Inspector.css';
+
+/**
+ * The file formats a diagram can be saved in: our own JSON, Graphviz DOT, or a Mermaid flowchart.
+ */
+export type DiagramFileFormat = 'json' | 'dot' | 'mermaid';
+
+/**
+ * Tell the format of a file from its name, assuming JSON for unknown extensions.
+ */
+export function formatForFileName(name: string): DiagramFileFormat {
+  if (/\.(dot|gv)$/i.test(name)) return 'dot';
+  if (/\.(mmd|mermaid)$/i.test(name)) return 'mermaid';
+  return 'json';
+}
+
+interface DiagramFileControlsProps {
+  error: string | null;
+  onSave: (format: DiagramFileFormat) => void;
+  onLoad: (text: string, format: DiagramFileFormat) => void;
+}
+
+/**
+ * Buttons to save the diagram to a file and to open one, in any of the diagram file formats.
+ */
+export function DiagramFileControls(props: DiagramFileControlsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<DiagramFileFormat>('json');
+
+  const handleOpenClick = () => {
+    if (fileInput.current) fileInput.current.click();
+  };
+
+  const handleFileChange = (e: any) => {
+    const file: File | undefined = e.target.files[0];
+    e.target.value = '';  // allow the same file to be opened again
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => props.onLoad(reader.result as string, formatForFileName(file.name));
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className='file-controls'>
+      <button onClick={() => props.onSave(format)}>Save</button>
+      <select value={format} onChange={(e: any) => setFormat(e.target.value as DiagramFileFormat)}>
+        <option value='json'>JSON</option>
+        <option value='dot'>Graphviz DOT</option>
+        <option value='mermaid'>Mermaid</option>
+      </select>
+      <button onClick={handleOpenClick}>Open…</button>
+      <input
+        ref={fileInput}
+        type='file'
+        accept='.json,application/json,.dot,.gv,.mmd,.mermaid'
+        style={{ display: 'none' }}
+        onChange={handleFileChange}>
+      </input>
+      {props.error && <span className='violations'> {props.error}</span>}
+    </div>
+  );
+};
@@ -6,8 +6,15 @@ import * as go from 'gojs';
 import { ReactDiagram } from 'gojs-react';
 import {useState, useCallback, useEffect} from 'react';
 
+import { EditorCommandHandler, KeyBindings } from '../commands/EditorCommandHandler';
+import { defaultKeyBindings, editorCommands } from '../commands/editorCommands';
 import { GuidedDraggingTool } from '../GuidedDraggingTool';
-import { DiagramData } from '../App';
+import { DiagramData } from '../hooks/useGoModelState';
+import { applyKeyStrategy, KeyStrategy, sequentialKeyStrategy } from '../model/keys';
+import { makeLayout, normalizeLayoutSettings, syncLayout } from '../model/layouts';
+import { RuleViolation } from '../model/rules';
+import { applyTemplates, CategoryRegistry, finishDrop, groupArchetype, highlightBindings } from '../templates/categoryRegistry';
+import { showViolationBadges } from '../templates/violationBadges';
 
 import './Diagram.css';
 
@@ -15,6 +22,11 @@ interface DiagramProps {
   diagramData: DiagramData;
   onDiagramEvent: (e: go.DiagramEvent) => void;
   onModelChange: (e: go.IncrementalData) => void;
+  onDiagramChange?: (diagram: go.Diagram | null) => void;
+  categories: CategoryRegistry;
+  keyStrategy?: KeyStrategy;  // how new nodes and links get their keys, by default sequential numbers
+  ruleViolations?: Array<RuleViolation>;  // shown as badges on the offending nodes and links
+  keyBindings?: KeyBindings;  // keys for the editor commands, by default defaultKeyBindings
 }
 
 export function DiagramWrapper(props: DiagramProps) {
@@ -29,6 +41,30 @@ export function DiagramWrapper(props: DiagramProps) {
     }
   }, [diagram, props.onDiagramEvent]);
 
+  // Let the parent know about the diagram, for anything that needs the GoJS model directly
+  const { onDiagramChange } = props;
+  useEffect(() => {
+    if (onDiagramChange) onDiagramChange(diagram);
+  }, [diagram, onDiagramChange]);
+
+  // Follow the layout in modelData when it changes by undo, a collaborator or opening a file
+  const layoutKey = JSON.stringify(props.diagramData.modelData.layout || null);
+  useEffect(() => {
+    if (diagram instanceof go.Diagram) syncLayout(diagram, JSON.parse(layoutKey));
+  }, [diagram, layoutKey]);
+
+  // Badge the nodes and links breaking rules, once their parts have been updated from the data
+  const { ruleViolations } = props;
+  useEffect(() => {
+    if (diagram instanceof go.Diagram) showViolationBadges(diagram, ruleViolations || []);
+  }, [diagram, ruleViolations]);
+
+  // Keys can be rebound while the diagram is up
+  const keyBindings = props.keyBindings || defaultKeyBindings;
+  useEffect(() => {
+    if (diagram instanceof go.Diagram) (diagram.commandHandler as EditorCommandHandler).keyBindings = keyBindings;
+  }, [diagram, keyBindings]);
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -50,59 +86,44 @@ export function DiagramWrapper(props: DiagramProps) {
     const diagram =
       $(go.Diagram,
         {                                                                                                                                                 
+          commandHandler: new EditorCommandHandler(),  // defined in EditorCommandHandler.ts, set before its properties below
           'undoManager.isEnabled': true,  // must be set to allow for model change listening
           // 'undoManager.maxHistoryLength': 0,  // uncomment disable undo/redo functionality
           'clickCreatingTool.archetypeNodeData': { text: 'new node', color: 'lightblue' },
+          'commandHandler.archetypeGroupData': groupArchetype(props.categories),
+          mouseDrop: (e: go.InputEvent) => finishDrop(e, null),  // dropping on the background takes parts out of their groups
           draggingTool: new GuidedDraggingTool(),  // defined in GuidedDraggingTool.ts
           'draggingTool.horizontalGuidelineColor': 'blue',
           'draggingTool.verticalGuidelineColor': 'blue',
           'draggingTool.centerGuidelineColor': 'green',
           'draggingTool.guidelineWidth': 1,
-          layout: $(go.ForceDirectedLayout),
+          'draggingTool.isSpacingGuidelineEnabled': true,
+          'draggingTool.spacingGuidelineColor': 'green',
+          'draggingTool.isContentBoundsGuidelineEnabled': true,
+          layout: makeLayout(normalizeLayoutSettings(null)),  // replaced by the layout in modelData, if any
           model: $(go.GraphLinksModel,
             {
-              linkKeyProperty: 'key',  // IMPORTANT! must be defined for merges and data sync when using GraphLinksModel
-              // positive keys for nodes
-              makeUniqueKeyFunction: (m: go.Model, data: any) => {
-                let k = data.key || 1;
-                while (m.findNodeDataForKey(k)) k++;
-                data.key = k;
-                return k;
-              },
-              // negative keys for links
-              makeUniqueLinkKeyFunction: (m: go.GraphLinksModel, data: any) => {
-                let k = data.key || -1;
-                while (m.findLinkDataForKey(k)) k--;
-                data.key = k;
-                return k;
-              }
+              linkKeyProperty: 'key'  // IMPORTANT! must be defined for merges and data sync when using GraphLinksModel
             })
         });
 
-    // define a simple Node template
-    diagram.nodeTemplate =
-      $(go.Node, 'Auto',  // the Shape will go around the TextBlock
-        new go.Binding('location', 'loc', go.Point.parse).makeTwoWay(go.Point.stringify),
-        $(go.Shape, 'RoundedRectangle',
-          {
-            name: 'SHAPE', fill: 'white', strokeWidth: 0,
-            // set the port properties:
-            portId: '', fromLinkable: true, toLinkable: true, cursor: 'pointer'
-          },
-          // Shape.fill is bound to Node.data.color
-          new go.Binding('fill', 'color')),
-        $(go.TextBlock,
-          { margin: 8, editable: true, font: '400 .875rem Roboto, sans-serif' },  // some room around the text
-          new go.Binding('text').makeTwoWay()
-        )
-      );
+    // keys are opaque: numbers, strings or UUIDs, whichever the strategy or the loaded data uses
+    applyKeyStrategy(diagram.model as go.GraphLinksModel, props.keyStrategy || sequentialKeyStrategy);
+
+    // editing commands for the keyboard, the command palette and toolbar buttons
+    const commandHandler = diagram.commandHandler as EditorCommandHandler;
+    commandHandler.commands = editorCommands;
+    commandHandler.keyBindings = props.keyBindings || defaultKeyBindings;
+
+    // one node template per category, defined in categoryRegistry.ts
+    applyTemplates(diagram, props.categories);
 
     // relinking depends on modelData
     diagram.linkTemplate =
       $(go.Link,
         new go.Binding('relinkableFrom', 'canRelink').ofModel(),
         new go.Binding('relinkableTo', 'canRelink').ofModel(),
-        $(go.Shape),
+        $(go.Shape, ...highlightBindings('black', 1)),
         $(go.Shape, { toArrow: 'Standard' })
       );
 
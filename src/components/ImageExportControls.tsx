@@ -0,0 +1,92 @@
+import * as go from 'gojs';
+
+import { useState } from 'react';
+
+import { defaultExportOptions, downloadDiagramImage, ImageExportOptions, ImageFormat, printExportOptions } from '../utils/imageExport';
+import { NumberEditor, PropertyValue } from './PropertyEditors';
+
+import './Inspector.css';
+
+interface ImageExportControlsProps {
+  diagram: go.Diagram | null;
+}
+
+/**
+ * Options for exporting the diagram as an image, and a button to download it.
+ */
+export function ImageExportControls(props: ImageExportControlsProps) {
+  const [options, setOptions] = useState<ImageExportOptions>(defaultExportOptions);
+  const [error, setError] = useState<string | null>(null);
+
+  const setOption = (changes: Partial<ImageExportOptions>) => {
+    setOptions({ ...options, ...changes });
+  };
+
+  const handleExport = async () => {
+    if (props.diagram === null) return;
+    try {
+      await downloadDiagramImage(props.diagram, options);
+      setError(null);
+    } catch (ex) {
+      setError(ex.message);
+    }
+  };
+
+  const disabled = props.diagram === null;
+  return (
+    <div className='inspector image-export'>
+      <label>
+        Export as <select disabled={disabled} value={options.format} onChange={(e: any) => setOption({ format: e.target.value as ImageFormat })}>
+          <option value='svg'>SVG</option>
+          <option value='png'>PNG</option>
+          <option value='jpeg'>JPEG</option>
+        </select>
+      </label>
+      <label>
+        Scale <NumberEditor
+          id='exportScale'
+          value={options.scale}
+          mixed={false}
+          disabled={disabled}
+          onChange={(val: PropertyValue) => setOption({ scale: Math.max(0.1, val as number) })}
+        />
+      </label>
+      <label>
+        Margin <NumberEditor
+          id='exportMargin'
+          value={options.margin}
+          mixed={false}
+          disabled={disabled}
+          onChange={(val: PropertyValue) => setOption({ margin: Math.max(0, val as number) })}
+        />
+      </label>
+      <label>
+        Background <input
+          placeholder='transparent'
+          disabled={disabled}
+          value={options.background}
+          onChange={(e: any) => setOption({ background: e.target.value })}>
+        </input>
+      </label>
+      <label>
+        <input
+          type='checkbox'
+          disabled={disabled}
+          checked={options.selectionOnly}
+          onChange={(e: any) => setOption({ selectionOnly: e.target.checked })} />
+        Selection only
+      </label>
+      <label>
+        <select disabled={disabled} value={options.area} onChange={(e: any) => setOption({ area: e.target.value })}>
+          <option value='document'>Whole diagram</option>
+          <option value='viewport'>Visible area</option>
+        </select>
+      </label>
+      <button disabled={disabled} title='300 dpi PNG on white, for PDFs and print' onClick={() => setOptions({ ...printExportOptions, selectionOnly: options.selectionOnly, area: options.area })}>
+        Print settings
+      </button>
+      <button disabled={disabled} onClick={handleExport}>Export</button>
+      {error && <span className='violations'> {error}</span>}
+    </div>
+  );
+};
@@ -2,51 +2,52 @@
 *  Copyright (C) 1998-2021 by Northwoods Software Corporation. All Rights Reserved.
 */
 
-import {useEffect, useState, useCallback} from 'react';
+import { PropertySchema } from '../model/schema';
+import { EditorRegistry, PropertyValue, resolveEditor } from './PropertyEditors';
+
 import './Inspector.css';
 
 interface InspectorRowProps {
   id: string;
-  value: string;
-  onInputChange: (key: string, value: string, isBlur: boolean) => void;
+  value: PropertyValue;
+  mixed?: boolean;
+  schema?: PropertySchema;
+  editors: EditorRegistry;
+  onInputChange: (key: string, value: PropertyValue, isBlur: boolean) => void;
+  onRemove?: (key: string) => void;
 }
 
 export function InspectorRow(props: InspectorRowProps) {
-  const [val, setVal] = useState<string>(props.value);
+  const Editor = resolveEditor(props.editors, props.id, props.value, props.schema);
 
-  const handleInputChange = (e: any) => {
-    props.onInputChange(props.id, e.target.value, e.type === 'blur');
+  const handleInputChange = (value: PropertyValue, isBlur: boolean) => {
+    props.onInputChange(props.id, value, isBlur);
   };
 
-  const formatLocation = useCallback((loc: string): string => {
-    const locArr = loc.split(' ');
-    if (locArr.length === 2) {
-      const x = parseFloat(locArr[0]);
-      const y = parseFloat(locArr[1]);
-      if (!isNaN(x) && !isNaN(y)) {
-        return `${x.toFixed(0)} ${y.toFixed(0)}`;
-      }
-    }
-    return loc;
-  }, []);
-
-  useEffect(() => {
-    if (props.id === 'loc') {
-      setVal(formatLocation(props.value));
-    }
-  }, [props.id, props.value, setVal, formatLocation]);
-  
   return (
     <tr>
-      <td>{props.id}</td>
       <td>
-        <input
+        {props.id}
+        {props.mixed && <span className='mixed' title='Values differ between the selected objects'> (mixed)</span>}
+      </td>
+      <td>
+        <Editor
+          id={props.id}
+          value={props.value}
+          mixed={props.mixed === true}
           disabled={props.id === 'key'}
-          value={val}
-          onChange={handleInputChange}
-          onBlur={handleInputChange}>
-        </input>
+          schema={props.schema}
+          onChange={handleInputChange} />
+      </td>
+      <td>
+        {props.onRemove &&
+          <button
+            className='remove-property'
+            title={`Remove ${props.id}`}
+            onClick={() => props.onRemove && props.onRemove(props.id)}>
+            ×
+          </button>}
       </td>
     </tr>
   );
-};
\ No newline at end of file
+};
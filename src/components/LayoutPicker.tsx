@@ -0,0 +1,69 @@
+import { LayoutKind, layoutKinds, LayoutParameter, LayoutSettings, normalizeLayoutSettings } from '../model/layouts';
+import { NumberEditor, PropertyValue } from './PropertyEditors';
+
+import './Inspector.css';
+
+interface LayoutPickerProps {
+  settings: LayoutSettings;
+  disabled: boolean;
+  onChange: (settings: LayoutSettings) => void;
+}
+
+/**
+ * A dropdown of the available layouts and fields for the chosen layout's parameters.
+ * Every change lays the diagram out again.
+ */
+export function LayoutPicker(props: LayoutPickerProps) {
+  const { settings } = props;
+
+  const handleKindChange = (e: any) => {
+    props.onChange(normalizeLayoutSettings({ kind: e.target.value as LayoutKind }));
+  };
+
+  const handleParamChange = (name: string, value: PropertyValue) => {
+    props.onChange(normalizeLayoutSettings({ kind: settings.kind, params: { ...settings.params, [name]: value } }));
+  };
+
+  const renderParameter = (param: LayoutParameter) => {
+    const value = settings.params[param.name];
+    let editor: JSX.Element;
+    if (param.options) {
+      editor = (
+        <select
+          disabled={props.disabled}
+          value={value}
+          onChange={(e: any) => handleParamChange(param.name, parseFloat(e.target.value))}>
+          {param.options.map((opt: number) => <option key={opt} value={opt}>{opt}</option>)}
+        </select>
+      );
+    } else {
+      editor = (
+        <NumberEditor
+          id={param.name}
+          value={value}
+          mixed={false}
+          disabled={props.disabled}
+          onChange={(val: PropertyValue) => handleParamChange(param.name, val)}
+        />
+      );
+    }
+    return (
+      <label key={param.name}>
+        {param.label} {editor}
+      </label>
+    );
+  };
+
+  return (
+    <div className='inspector layout-picker'>
+      <label>
+        Layout <select disabled={props.disabled} value={settings.kind} onChange={handleKindChange}>
+          {(Object.keys(layoutKinds) as Array<LayoutKind>).map((kind: LayoutKind) =>
+            <option key={kind} value={kind}>{layoutKinds[kind].label}</option>
+          )}
+        </select>
+      </label>
+      {layoutKinds[settings.kind].parameters.map(renderParameter)}
+    </div>
+  );
+};
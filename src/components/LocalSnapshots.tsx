@@ -0,0 +1,91 @@
+import { useState } from 'react';
+
+import { LocalDiagramStore, SnapshotInfo, StoredDiagram } from '../persistence/localDiagramStore';
+
+import './Inspector.css';
+
+interface RestorePromptProps {
+  autosave: StoredDiagram;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Asks whether to restore a diagram that was autosaved but never explicitly saved.
+ */
+export function RestorePrompt(props: RestorePromptProps) {
+  return (
+    <div className='restore-prompt'>
+      Restore the unsaved diagram from {new Date(props.autosave.savedAt).toLocaleString()}?
+      <button onClick={props.onRestore}>Restore</button>
+      <button onClick={props.onDiscard}>Discard</button>
+    </div>
+  );
+};
+
+interface LocalSnapshotsProps {
+  store: LocalDiagramStore;
+  getCurrentText: () => string;
+  onOpen: (text: string) => void;
+}
+
+/**
+ * Lists named snapshots kept in browser storage, with controls to take, open and delete them.
+ */
+export function LocalSnapshots(props: LocalSnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<Array<SnapshotInfo>>(() => props.store.listSnapshots());
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = (e: any) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed === '') return;
+    try {
+      props.store.saveSnapshot(trimmed, props.getCurrentText());
+      setError(null);
+      setName('');
+    } catch (ex) {
+      setError(ex.message);
+    }
+    setSnapshots(props.store.listSnapshots());
+  };
+
+  const handleOpen = (snapshotName: string) => {
+    const stored = props.store.loadSnapshot(snapshotName);
+    if (stored) props.onOpen(stored.text);
+  };
+
+  const handleDelete = (snapshotName: string) => {
+    props.store.deleteSnapshot(snapshotName);
+    setSnapshots(props.store.listSnapshots());
+  };
+
+  return (
+    <div className='inspector snapshots'>
+      <form onSubmit={handleSave}>
+        <input
+          placeholder='snapshot name'
+          value={name}
+          onChange={(e: any) => setName(e.target.value)}>
+        </input>
+        <button type='submit' disabled={name.trim() === ''}>Save snapshot</button>
+        {error && <span className='violations'> {error}</span>}
+      </form>
+      <table>
+        <tbody>
+          {snapshots.map((s: SnapshotInfo) =>
+            <tr key={s.name}>
+              <td>{s.name}</td>
+              <td className='mixed'>{new Date(s.savedAt).toLocaleString()}</td>
+              <td>
+                <button onClick={() => handleOpen(s.name)}>Open</button>
+                <button onClick={() => handleDelete(s.name)}>Delete</button>
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import * as go from 'gojs';
+import { ReactPalette } from 'gojs-react';
+import { useMemo } from 'react';
+
+import { applyTemplates, CategoryRegistry, paletteData } from '../templates/categoryRegistry';
+
+import './Diagram.css';
+
+interface PaletteProps {
+  categories: CategoryRegistry;
+}
+
+/**
+ * A palette with one node of each category, which can be dragged into the diagram.
+ */
+export function PaletteWrapper(props: PaletteProps) {
+  const { categories } = props;
+  const nodeDataArray = useMemo(() => paletteData(categories), [categories]);
+
+  const initPalette = (): go.Palette => {
+    const $ = go.GraphObject.make;
+    const palette =
+      $(go.Palette,
+        {
+          layout: $(go.GridLayout, { wrappingColumn: 1, alignment: go.GridLayout.Location }),
+          model: $(go.GraphLinksModel, { linkKeyProperty: 'key' })
+        });
+    applyTemplates(palette, categories);
+    return palette;
+  };
+
+  return (
+    <ReactPalette
+      initPalette={initPalette}
+      divClassName='palette-component'
+      nodeDataArray={nodeDataArray}
+    />
+  );
+};
@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { isPointString, PropertySchema, PropertyType } from '../model/schema';
+import { keyFromWord } from '../persistence/graphText';
+
+import './Inspector.css';
+
+export type PropertyValue = string | number | boolean;
+
+export interface PropertyEditorProps {
+  id: string;
+  value: PropertyValue;
+  mixed: boolean;  // the value differs between selected objects, so props.value is just one of them
+  disabled: boolean;
+  schema?: PropertySchema;
+  onChange: (value: PropertyValue, isBlur: boolean) => void;
+}
+
+export type PropertyEditor = (props: PropertyEditorProps) => JSX.Element;
+
+/**
+ * Editors are looked up first by property name, then by the property's schema type.
+ * Properties with an enum in their schema always get a dropdown unless a name editor is registered.
+ */
+export interface EditorRegistry {
+  byName: { [name: string]: PropertyEditor };
+  byType: { [type in PropertyType]?: PropertyEditor };
+}
+
+/**
+ * Report changes to a field as they are made, and commit on blur only if there were any,
+ * so that tabbing through a field, mixed ones included, leaves the data alone.
+ */
+function useCommitOnBlur(onChange: (value: PropertyValue, isBlur: boolean) => void): (e: any) => void {
+  const edited = useRef<boolean>(false);
+  return (e: any) => {
+    if (e.type !== 'blur') {
+      edited.current = true;
+      onChange(e.target.value, false);
+    } else if (edited.current) {
+      edited.current = false;
+      onChange(e.target.value, true);
+    }
+  };
+}
+
+/**
+ * A plain text field, which reports every keystroke and commits on blur if it was edited.
+ */
+export function TextEditor(props: PropertyEditorProps) {
+  const handleChange = useCommitOnBlur(props.onChange);
+
+  return (
+    <input
+      disabled={props.disabled}
+      value={props.mixed ? '' : String(props.value)}
+      placeholder={props.mixed ? 'mixed' : undefined}
+      onChange={handleChange}
+      onBlur={handleChange}>
+    </input>
+  );
+};
+
+/**
+ * A numeric field. The text is only parsed and committed on blur; invalid numbers are discarded.
+ */
+export function NumberEditor(props: PropertyEditorProps) {
+  const initial = props.mixed ? '' : String(props.value);
+  const [val, setVal] = useState<string>(initial);
+
+  useEffect(() => {
+    setVal(initial);
+  }, [initial]);
+
+  const handleBlur = () => {
+    const num = parseFloat(val);
+    if (val.trim() === '' || isNaN(num)) {
+      setVal(initial);
+    } else {
+      props.onChange(num, true);
+    }
+  };
+
+  return (
+    <input
+      type='number'
+      disabled={props.disabled}
+      value={val}
+      placeholder={props.mixed ? 'mixed' : undefined}
+      onChange={(e: any) => setVal(e.target.value)}
+      onBlur={handleBlur}>
+    </input>
+  );
+};
+
+/**
+ * A field for a key, such as a node's group. The text is only committed on blur, and numerals become numbers,
+ * so a numeric key like 1 still matches the node it names instead of turning into the string '1'.
+ * Clearing the field discards the edit; the property can be removed instead.
+ */
+export function KeyEditor(props: PropertyEditorProps) {
+  const initial = props.mixed ? '' : String(props.value);
+  const [val, setVal] = useState<string>(initial);
+
+  useEffect(() => {
+    setVal(initial);
+  }, [initial]);
+
+  const handleBlur = () => {
+    const word = val.trim();
+    const key = keyFromWord(word) as string | number;
+    if (word === '') {
+      setVal(initial);
+    } else if (props.mixed || key !== props.value) {
+      props.onChange(key, true);
+    }
+  };
+
+  return (
+    <input
+      disabled={props.disabled}
+      value={val}
+      placeholder={props.mixed ? 'mixed' : undefined}
+      onChange={(e: any) => setVal(e.target.value)}
+      onBlur={handleBlur}>
+    </input>
+  );
+};
+
+/**
+ * Round the numbers in a location string for display.
+ */
+function formatLocation(loc: string): [string, string] {
+  if (isPointString(loc)) {
+    const locArr = loc.trim().split(/\s+/);
+    return [parseFloat(locArr[0]).toFixed(0), parseFloat(locArr[1]).toFixed(0)];
+  }
+  return ['', ''];
+}
+
+/**
+ * A pair of numeric x/y fields for a location string like '150 0'.
+ * The location is only committed on blur, and only if both fields hold numbers.
+ */
+export function PointEditor(props: PropertyEditorProps) {
+  const loc = props.mixed ? '' : String(props.value);
+  const [xy, setXY] = useState<[string, string]>(formatLocation(loc));
+
+  useEffect(() => {
+    setXY(formatLocation(loc));
+  }, [loc]);
+
+  const handleBlur = () => {
+    const x = parseFloat(xy[0]);
+    const y = parseFloat(xy[1]);
+    if (isNaN(x) || isNaN(y)) {
+      setXY(formatLocation(loc));
+    } else if (`${x} ${y}` !== formatLocation(loc).join(' ')) {
+      props.onChange(`${x} ${y}`, true);
+    }
+  };
+
+  return (
+    <span className='point-editor'>
+      x <input
+          type='number'
+          disabled={props.disabled}
+          value={xy[0]}
+          placeholder={props.mixed ? 'mixed' : undefined}
+          onChange={(e: any) => setXY([e.target.value, xy[1]])}
+          onBlur={handleBlur}>
+        </input>
+      y <input
+          type='number'
+          disabled={props.disabled}
+          value={xy[1]}
+          placeholder={props.mixed ? 'mixed' : undefined}
+          onChange={(e: any) => setXY([xy[0], e.target.value])}
+          onBlur={handleBlur}>
+        </input>
+    </span>
+  );
+};
+
+/**
+ * A checkbox, which commits as soon as it is toggled. Mixed values show as indeterminate.
+ */
+export function BooleanEditor(props: PropertyEditorProps) {
+  const ref = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = props.mixed;
+  }, [props.mixed]);
+
+  return (
+    <input
+      ref={ref}
+      type='checkbox'
+      disabled={props.disabled}
+      checked={props.value === true}
+      onChange={(e: any) => props.onChange(e.target.checked, true)}>
+    </input>
+  );
+};
+
+/**
+ * A dropdown of the values allowed by the property's schema, which commits on selection.
+ */
+export function EnumEditor(props: PropertyEditorProps) {
+  const options = (props.schema && props.schema.enum) || [];
+  const value = props.mixed ? '' : String(props.value);
+  return (
+    <select
+      disabled={props.disabled}
+      value={value}
+      onChange={(e: any) => props.onChange(e.target.value, true)}>
+      {props.mixed && <option value='' disabled>mixed</option>}
+      {!props.mixed && !options.includes(value) && <option value={value}>{value}</option>}
+      {options.map((opt: string) => <option key={opt} value={opt}>{opt}</option>)}
+    </select>
+  );
+};
+
+/**
+ * Convert any CSS color to the #rrggbb form required by color inputs,
+ * letting the canvas normalize named colors like 'lightblue'.
+ */
+function toHexColor(color: string): string {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (ctx === null) return '#000000';
+  ctx.fillStyle = '#000000';
+  ctx.fillStyle = color;
+  const style = ctx.fillStyle;
+  return style.startsWith('#') ? style : '#000000';  // translucent colors come back as rgba()
+}
+
+/**
+ * A color picker alongside a text field, so named colors can still be typed.
+ */
+export function ColorEditor(props: PropertyEditorProps) {
+  const color = String(props.value);
+  const hex = useMemo(() => toHexColor(color), [color]);
+  const handleChange = useCommitOnBlur(props.onChange);
+
+  return (
+    <span className='color-editor'>
+      <input
+        type='color'
+        disabled={props.disabled}
+        value={hex}
+        onChange={handleChange}
+        onBlur={handleChange}>
+      </input>
+      <TextEditor {...props} />
+    </span>
+  );
+};
+
+export const defaultEditorRegistry: EditorRegistry = {
+  byName: {
+    color: ColorEditor,
+    loc: PointEditor
+  },
+  byType: {
+    string: TextEditor,
+    number: NumberEditor,
+    boolean: BooleanEditor,
+    key: KeyEditor,
+    point: PointEditor
+  }
+};
+
+/**
+ * Find the editor for a property, falling back to a text field.
+ * Without a schema, the type is inferred from the current value.
+ * @param registry the editors to choose from
+ * @param id the property name
+ * @param value the property's current value
+ * @param schema the property's schema, if any
+ */
+export function resolveEditor(registry: EditorRegistry, id: string, value: PropertyValue, schema?: PropertySchema): PropertyEditor {
+  const named = registry.byName[id];
+  if (named) return named;
+  if (schema && schema.enum) return EnumEditor;
+  let type: PropertyType = 'string';
+  if (schema) type = schema.type;
+  else if (typeof value === 'number') type = 'number';
+  else if (typeof value === 'boolean') type = 'boolean';
+  return registry.byType[type] || TextEditor;
+}
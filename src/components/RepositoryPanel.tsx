@@ -0,0 +1,69 @@
+import { useState } from 'react';
+
+import { DiagramRepositoryState } from '../hooks/useDiagramRepository';
+import { DiagramSummary } from '../persistence/diagramRepository';
+
+import './Inspector.css';
+
+interface RepositoryPanelProps {
+  repo: DiagramRepositoryState;
+}
+
+/**
+ * Shows the diagrams kept by the server, the state of the current one, and controls to open, save and delete them.
+ */
+export function RepositoryPanel(props: RepositoryPanelProps) {
+  const repo = props.repo;
+  const [newId, setNewId] = useState<string>('');
+  const busy = repo.status === 'loading' || repo.status === 'saving';
+
+  const handleSaveAs = (e: any) => {
+    e.preventDefault();
+    const id = newId.trim();
+    if (id === '' || repo.diagrams.some((d: DiagramSummary) => d.id === id)) return;
+    repo.saveAs(id);
+    setNewId('');
+  };
+
+  let statusText = '';
+  if (repo.status === 'loading') statusText = 'Loading…';
+  else if (repo.status === 'saving') statusText = 'Saving…';
+  else if (repo.currentId !== null) statusText = repo.pendingChanges > 0 ? `${repo.pendingChanges} unsaved changes` : 'All changes saved';
+
+  return (
+    <div className='inspector repository'>
+      <div>
+        <span>{repo.currentId !== null ? repo.currentId : 'Not saved to the server'}</span>
+        <button
+          disabled={busy || repo.currentId === null || repo.pendingChanges === 0}
+          onClick={() => repo.save()}>
+          Save to server
+        </button>
+        <span className='mixed'> {statusText}</span>
+        {repo.error && <span className='violations'> {repo.error}</span>}
+      </div>
+      <form onSubmit={handleSaveAs}>
+        <input
+          placeholder='new diagram name'
+          value={newId}
+          onChange={(e: any) => setNewId(e.target.value)}>
+        </input>
+        <button type='submit' disabled={busy || newId.trim() === ''}>Save as</button>
+      </form>
+      <table>
+        <tbody>
+          {repo.diagrams.map((d: DiagramSummary) =>
+            <tr key={d.id}>
+              <td>{d.id === repo.currentId ? <b>{d.id}</b> : d.id}</td>
+              <td className='mixed'>{new Date(d.updatedAt).toLocaleString()}</td>
+              <td>
+                <button disabled={busy} onClick={() => repo.open(d.id)}>Open</button>
+                <button disabled={busy} onClick={() => repo.remove(d.id)}>Delete</button>
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
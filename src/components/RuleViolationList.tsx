@@ -0,0 +1,65 @@
+import * as go from 'gojs';
+
+import { useMemo } from 'react';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { RuleRejection } from '../hooks/useRuleEnforcement';
+import { RuleViolation } from '../model/rules';
+import { describeResult, nodeTextIndex } from '../model/search';
+
+import './Inspector.css';
+
+interface RuleViolationListProps {
+  diagram: go.Diagram | null;
+  data: DiagramContents;
+  violations: Array<RuleViolation>;
+  enforce: boolean;
+  onEnforceChange: (enforce: boolean) => void;
+  rejection: RuleRejection | null;
+  onDismissRejection: () => void;
+}
+
+/**
+ * The nodes and links breaking validation rules, each of which can be clicked to select it,
+ * and whether to reject changes that break them.
+ */
+export function RuleViolationList(props: RuleViolationListProps) {
+  const { diagram, data, violations } = props;
+  const nodeText = useMemo(() => nodeTextIndex(data.nodeDataArray), [data.nodeDataArray]);
+
+  const describe = (v: RuleViolation) => {
+    if (v.kind === 'node') return describeResult({ kind: 'node', data: { key: v.key } }, nodeText);
+    const ld = data.linkDataArray.find((l: go.ObjectData) => l.key === v.key);
+    return `Link ${ld ? describeResult({ kind: 'link', data: ld }, nodeText) : String(v.key)}`;
+  };
+
+  const handleClick = (v: RuleViolation) => {
+    if (diagram === null) return;
+    const part = v.kind === 'node' ? diagram.findNodeForKey(v.key) : diagram.findLinkForKey(v.key);
+    if (part === null) return;
+    diagram.select(part);
+    diagram.commandHandler.scrollToPart(part);
+  };
+
+  return (
+    <div className='inspector rule-violations'>
+      <label>
+        <input type='checkbox' checked={props.enforce} onChange={(e: any) => props.onEnforceChange(e.target.checked)} />
+        Reject changes that break rules
+      </label>
+      {props.rejection &&
+        <div className='violations'>
+          {props.rejection.transaction || 'A change'} was undone: {props.rejection.errors.map((v: RuleViolation) => `${describe(v)} ${v.message}`).join('; ')}
+          <button onClick={props.onDismissRejection}>Dismiss</button>
+        </div>}
+      {violations.length > 0 &&
+        <ul>
+          {violations.map((v: RuleViolation) =>
+            <li key={`${v.rule} ${v.kind} ${JSON.stringify(v.key)}`} className={v.severity} onClick={() => handleClick(v)}>
+              {describe(v)} {v.message}
+            </li>
+          )}
+        </ul>}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import { SchemaViolation } from '../model/schema';
+
+import './Inspector.css';
+
+interface SchemaViolationListProps {
+  violations: Array<SchemaViolation>;
+  onDismiss: () => void;
+}
+
+export function SchemaViolationList(props: SchemaViolationListProps) {
+  if (props.violations.length === 0) return null;
+
+  return (
+    <div className='inspector violations'>
+      <ul>
+        {props.violations.map((v: SchemaViolation, idx: number) =>
+          <li key={idx}>{v.key}: {v.message}</li>
+        )}
+      </ul>
+      <button onClick={props.onDismiss}>Dismiss</button>
+    </div>
+  );
+};
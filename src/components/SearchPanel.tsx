@@ -0,0 +1,52 @@
+import { DiagramSearch } from '../hooks/useDiagramSearch';
+import { KeyedData, SelectedData } from '../hooks/useGoModelState';
+
+import './Inspector.css';
+
+interface SearchPanelProps {
+  search: DiagramSearch<KeyedData, KeyedData>;
+}
+
+/**
+ * A search box with the list of matching nodes and links and buttons to step through them.
+ * Enter steps to the next result and Shift-Enter to the previous one; clicking a result steps to it.
+ */
+export function SearchPanel(props: SearchPanelProps) {
+  const { search } = props;
+
+  const handleKeyDown = (e: any) => {
+    if (e.key !== 'Enter') return;
+    if (e.shiftKey) search.previous();
+    else search.next();
+  };
+
+  return (
+    <div className='inspector search-panel'>
+      <input
+        type='search'
+        placeholder='Search, e.g. color = orange'
+        title='Words match any property; prop = value, !=, ~ (contains), <, <=, >, >= compare one. kind = link finds links, from = Alpha links leaving Alpha.'
+        value={search.query}
+        onChange={(e: any) => search.setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}>
+      </input>
+      {search.query.trim() !== '' &&
+        <div>
+          <span>{search.current < 0 ? '' : `${search.current + 1} of `}{search.results.length} found</span>
+          <button disabled={search.results.length === 0} onClick={search.previous}>Previous</button>
+          <button disabled={search.results.length === 0} onClick={search.next}>Next</button>
+          <button disabled={search.results.length === 0} onClick={search.selectAll}>Select all</button>
+          <ol>
+            {search.results.map((sd: SelectedData, idx: number) =>
+              <li
+                key={`${sd.kind}:${JSON.stringify(sd.data.key)}`}
+                className={idx === search.current ? 'current' : undefined}
+                onClick={() => search.goTo(idx)}>
+                {sd.kind === 'link' ? 'Link ' : ''}{search.describe(sd)}
+              </li>
+            )}
+          </ol>
+        </div>}
+    </div>
+  );
+};
@@ -2,45 +2,143 @@
 *  Copyright (C) 1998-2021 by Northwoods Software Corporation. All Rights Reserved.
 */
 
+import { useState } from 'react';
+
+import { LinkData, NodeData } from '../model/diagramSchema';
+import { DataSchema, defaultValueFor, isAllowedProperty } from '../model/schema';
 import { InspectorRow } from './InspectorRow';
+import { defaultEditorRegistry, EditorRegistry, PropertyValue } from './PropertyEditors';
 
 import './Inspector.css';
 
 interface SelectionInspectorProps {
-  selectedData: any;
-  onInputChange: (id: string, value: string, isBlur: boolean) => void;
+  selectedData: Array<NodeData | LinkData>;
+  schema?: DataSchema;
+  editors?: EditorRegistry;
+  onInputChange: (id: string, value: PropertyValue, isBlur: boolean) => void;
+  onRemoveProperty: (id: string) => void;
+}
+
+interface SharedProperty {
+  id: string;
+  value: PropertyValue;
+  mixed: boolean;
+}
+
+/**
+ * Find the properties set on every selected object, in the order of the first object,
+ * noting whether their values differ between objects.
+ */
+function findSharedProperties(arr: Array<{ [k: string]: any }>): Array<SharedProperty> {
+  if (arr.length === 0) return [];
+  const shared: Array<SharedProperty> = [];
+  Object.keys(arr[0]).forEach((k: string) => {
+    const value = arr[0][k];
+    if (value === undefined || !arr.every((d) => d[k] !== undefined)) return;
+    shared.push({ id: k, value, mixed: arr.some((d) => d[k] !== value) });
+  });
+  return shared;
 }
 
 export function SelectionInspector(props: SelectionInspectorProps) {
+  const [newProperty, setNewProperty] = useState<string>('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  /**
+   * Whether a property may be removed: the key and any required properties must stay.
+   */
+  const isRemovable = (k: string): boolean => {
+    if (k === 'key') return false;
+    const prop = props.schema && props.schema.properties[k];
+    return !(prop && prop.required);
+  };
+
+  const shared = findSharedProperties(props.selectedData);
+
   /**
-   * Render the object data, passing down property keys and values.
+   * Render the properties shared by the selected objects, passing down property keys and values.
+   * Properties set to undefined have been removed and are skipped.
    */
   const renderObjectDetails = () => {
-    const selObj = props.selectedData;
-    const dets = [];
-    for (const k in selObj) {
-      const val = selObj[k];
+    const editors = props.editors || defaultEditorRegistry;
+    const dets: Array<JSX.Element> = [];
+    shared.forEach(({ id: k, value, mixed }: SharedProperty) => {
       const row = <InspectorRow
                     key={k}
                     id={k}
-                    value={val}
-                    onInputChange={props.onInputChange} />;
+                    value={value}
+                    mixed={mixed}
+                    schema={props.schema && props.schema.properties[k]}
+                    editors={editors}
+                    onInputChange={props.onInputChange}
+                    onRemove={isRemovable(k) ? props.onRemoveProperty : undefined} />;
       if (k === 'key') {
         dets.unshift(row); // key always at start
       } else {
         dets.push(row);
       }
-    }
+    });
     return dets;
   }
 
+  /**
+   * Schema properties that no selected object has, offered as suggestions when adding a property.
+   */
+  const missingProperties = (): Array<string> => {
+    if (!props.schema) return [];
+    return Object.keys(props.schema.properties).filter((k: string) => props.selectedData.every((d: { [k: string]: any }) => d[k] === undefined));
+  };
+
+  /**
+   * Add the named property to every selected object with a default value for its schema type,
+   * which can then be edited in its row. Names the schema doesn't allow are refused,
+   * so other fields must be named with its custom prefix, and so are names any selected object already has,
+   * whose values would otherwise be overwritten with the default.
+   */
+  const handleAddProperty = (e: any) => {
+    e.preventDefault();
+    const name = newProperty.trim();
+    if (name === '') return;
+    if (props.selectedData.some((d: { [k: string]: any }) => d[name] !== undefined)) {
+      setAddError(`'${name}' is already set` + (props.selectedData.length > 1 ? ' on some of the selection' : ''));
+      return;
+    }
+    if (props.schema && !isAllowedProperty(props.schema, name)) {
+      const prefix = props.schema.customPrefix;
+      setAddError(`unknown property '${name}'` + (prefix ? `; custom fields start with '${prefix}'` : ''));
+      return;
+    }
+    const prop = props.schema && props.schema.properties[name];
+    props.onInputChange(name, defaultValueFor(prop), true);
+    setNewProperty('');
+    setAddError(null);
+  };
+
   return (
     <div id='myInspectorDiv' className='inspector'>
+      {props.selectedData.length > 1 &&
+        <div className='selection-count'>{props.selectedData.length} selected</div>}
       <table>
         <tbody>
           {renderObjectDetails()}
         </tbody>
       </table>
+      <form className='add-property' onSubmit={handleAddProperty}>
+        <input
+          list='inspectorMissingProperties'
+          placeholder='new property'
+          value={newProperty}
+          onChange={(e: any) => {
+            setNewProperty(e.target.value);
+            setAddError(null);
+          }}>
+        </input>
+        <datalist id='inspectorMissingProperties'>
+          {missingProperties().map((k: string) => <option key={k} value={k} />)}
+        </datalist>
+        <button type='submit' disabled={newProperty.trim() === ''}>Add</button>
+        {addError && <span className='violations'> {addError}</span>}
+      </form>
     </div>
   );
-};
\ No newline at end of file
+};
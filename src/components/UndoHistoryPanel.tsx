@@ -0,0 +1,62 @@
+import { UndoHistory, UndoHistoryEntry } from '../hooks/useUndoHistory';
+
+import './Inspector.css';
+
+// friendlier names for the transactions of GoJS's own tools and commands
+const transactionLabels: { [name: string]: string } = {
+  'gojs-react init merge': 'Open diagram',
+  'update data': 'Update from app',
+  'change layout': 'Change layout',
+  'Move': 'Move',
+  'Copy': 'Copy',
+  'ExternalCopy': 'Drop from palette',
+  'TextEditing': 'Edit text',
+  'Linking': 'Draw link',
+  'Relinking': 'Relink',
+  'Delete': 'Delete',
+  'Cut': 'Cut',
+  'Paste': 'Paste',
+  'Group': 'Group',
+  'Ungroup': 'Ungroup',
+  'Collapse SubGraph': 'Collapse group',
+  'Expand SubGraph': 'Expand group'
+};
+
+function labelForTransaction(name: string): string {
+  return transactionLabels[name] || name;
+}
+
+interface UndoHistoryPanelProps {
+  history: UndoHistory;
+}
+
+/**
+ * Undo and redo buttons, and the list of transactions in the undo history.
+ * Clicking a transaction undoes or redoes everything after or up to it; undone transactions are shown faded.
+ */
+export function UndoHistoryPanel(props: UndoHistoryPanelProps) {
+  const { history } = props;
+  return (
+    <div className='inspector undo-history'>
+      <div className='toolbar'>
+        <button disabled={!history.canUndo} title='Undo (Ctrl-Z)' onClick={history.undo}>Undo</button>
+        <button disabled={!history.canRedo} title='Redo (Ctrl-Y)' onClick={history.redo}>Redo</button>
+      </div>
+      <ol>
+        <li
+          className={history.index === -1 ? 'current' : undefined}
+          onClick={() => history.jumpTo(-1)}>
+          <span className='mixed'>Start</span>
+        </li>
+        {history.entries.map((entry: UndoHistoryEntry, idx: number) =>
+          <li
+            key={idx}
+            className={idx === history.index ? 'current' : entry.isUndone ? 'undone' : undefined}
+            onClick={() => history.jumpTo(idx)}>
+            {labelForTransaction(entry.name)}
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { createElement } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+
+import { createLocalDiagramStore, createMemoryStorage, LocalDiagramStore } from '../persistence/localDiagramStore';
+import { AutosaveState, useAutosave } from './useAutosave';
+import { DiagramContents, KeyedData } from './useGoModelState';
+
+type Contents = DiagramContents<KeyedData, KeyedData>;
+
+function contents(...keys: Array<number>): Contents {
+  return { nodeDataArray: keys.map((key: number) => ({ key })), linkDataArray: [], modelData: {} };
+}
+
+// the node keys in the autosave, or null if there is none
+function autosavedKeys(store: LocalDiagramStore) {
+  const stored = store.loadAutosave();
+  return stored === null ? null : JSON.parse(stored.text).nodeDataArray.map((nd: KeyedData) => nd.key);
+}
+
+describe('useAutosave', () => {
+  let container: HTMLElement;
+  let store: LocalDiagramStore;
+  let autosave: AutosaveState;
+
+  function Harness(props: { store: LocalDiagramStore; contents: Contents; enabled: boolean }) {
+    autosave = useAutosave(props.store, props.contents, props.enabled, 1000);
+    return null;
+  }
+
+  function show(data: Contents, enabled: boolean = true) {
+    act(() => {
+      render(createElement(Harness, { store, contents: data, enabled }), container);
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    store = createLocalDiagramStore(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    unmountComponentAtNode(container);
+    jest.useRealTimers();
+  });
+
+  it('saves a burst of changes once, after the delay', () => {
+    show(contents(1));
+    show(contents(1, 2));
+    act(() => {
+      jest.advanceTimersByTime(600);
+    });
+    show(contents(1, 2, 3));
+    act(() => {
+      jest.advanceTimersByTime(600);
+    });
+    expect(autosavedKeys(store)).toBeNull();
+    act(() => {
+      jest.advanceTimersByTime(400);
+    });
+    expect(autosavedKeys(store)).toEqual([1, 2, 3]);
+  });
+
+  it('saves a pending change right away when the page is hidden', () => {
+    show(contents(1));
+    show(contents(1, 2));
+    window.dispatchEvent(new Event('pagehide'));
+    expect(autosavedKeys(store)).toEqual([1, 2]);
+  });
+
+  it("doesn't save the contents it is enabled with, or anything while disabled", () => {
+    store.saveAutosave('{"nodeDataArray":[{"key":9}]}');
+    show(contents(1), false);
+    show(contents(1, 2), false);
+    show(contents(1, 2), true);
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(autosavedKeys(store)).toEqual([9]);
+    show(contents(1, 2, 3));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(autosavedKeys(store)).toEqual([1, 2, 3]);
+  });
+
+  it('takes changes as saved after markSaved, until they stop for the delay', () => {
+    show(contents(1));
+    show(contents(1, 2));
+    act(() => autosave.markSaved());
+    show(contents(3));
+    act(() => {
+      jest.advanceTimersByTime(600);
+    });
+    show(contents(3, 4));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    window.dispatchEvent(new Event('pagehide'));
+    expect(autosavedKeys(store)).toBeNull();
+    show(contents(3, 4, 5));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(autosavedKeys(store)).toEqual([3, 4, 5]);
+  });
+
+  it('reports a failed save until the next one succeeds', () => {
+    const storage = createMemoryStorage();
+    let full = true;
+    store = createLocalDiagramStore({
+      ...storage,
+      setItem: (key: string, value: string) => {
+        if (full) throw new Error('The quota has been exceeded.');
+        storage.setItem(key, value);
+      }
+    });
+    show(contents(1));
+    show(contents(1, 2));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(autosave.error).toBe('The quota has been exceeded.');
+    full = false;
+    show(contents(1));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(autosave.error).toBeNull();
+    expect(autosavedKeys(store)).toEqual([1]);
+  });
+});
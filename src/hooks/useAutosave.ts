@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { LocalDiagramStore } from '../persistence/localDiagramStore';
+import { serializeDiagram } from '../persistence/diagramFile';
+import { DiagramContents, KeyedData } from './useGoModelState';
+
+export interface AutosaveState {
+  error: string | null;  // the message of the last failed save
+  markSaved: () => void;
+}
+
+/**
+ * Save the diagram to a LocalDiagramStore a short while after each change.
+ * The contents at the time autosave is enabled are not saved, so an existing autosave
+ * isn't overwritten before the user has had a chance to restore it.
+ * Any pending save is flushed when the page is hidden or closed.
+ * Call markSaved when the diagram is loaded or saved elsewhere, such as by replaceDiagram or on a server:
+ * the pending save is dropped, and so are changes until none have come for the delay,
+ * which covers the changes GoJS reports of its own while merging loaded contents, like a layout moving nodes.
+ * @param store where to save
+ * @param contents the current nodes, links and modelData
+ * @param enabled whether to save changes
+ * @param delay milliseconds to wait after a change before saving, so bursts of changes are saved once
+ */
+export function useAutosave<N extends KeyedData, L extends KeyedData>(store: LocalDiagramStore, contents: DiagramContents<N, L>, enabled: boolean, delay: number = 1000): AutosaveState {
+  const { nodeDataArray, linkDataArray, modelData } = contents;
+  const [error, setError] = useState<string | null>(null);
+  const primed = useRef<boolean>(false);
+  const pending = useRef<string | null>(null);
+  const settling = useRef<ReturnType<typeof setTimeout> | null>(null);  // while set, changes are taken as loaded
+
+  const markSaved = useCallback(() => {
+    pending.current = null;
+    if (settling.current !== null) clearTimeout(settling.current);
+    settling.current = setTimeout(() => {
+      settling.current = null;
+    }, delay);
+  }, [delay]);
+
+  useEffect(() => {
+    return () => {
+      if (settling.current !== null) clearTimeout(settling.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      primed.current = false;
+      return;
+    }
+    if (!primed.current) {
+      primed.current = true;
+      return;
+    }
+    if (settling.current !== null) {
+      markSaved();
+      return;
+    }
+    const save = () => {
+      if (pending.current === null) return;
+      try {
+        store.saveAutosave(pending.current);
+        setError(null);
+      } catch (ex) {
+        setError(ex.message);  // most likely the storage quota was exceeded
+      }
+      pending.current = null;
+    };
+    pending.current = serializeDiagram({ nodeDataArray, linkDataArray, modelData });
+    const timer = setTimeout(save, delay);
+    window.addEventListener('pagehide', save);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [store, enabled, delay, nodeDataArray, linkDataArray, modelData, markSaved]);
+
+  return { error, markSaved };
+}
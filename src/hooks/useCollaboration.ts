@@ -0,0 +1,64 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { applyChangesToModel, CollabConflict, CollabMessage, createCollabSession } from '../collab/collabSession';
+import { CollabTransport } from '../collab/transport';
+
+export interface CollaborationState {
+  clientId: string;
+  conflicts: Array<CollabConflict>;
+  clearConflicts: () => void;
+  isApplyingRemote: () => boolean;
+  broadcast: (obj: go.IncrementalData) => void;
+}
+
+/**
+ * Share model changes with other participants over a transport.
+ * Pass local changes to broadcast; remote changes are merged straight into the GoJS model in a transaction
+ * that skips the UndoManager, which ReactDiagram doesn't report through onModelChange. The changes as made
+ * are passed to onRemoteChange instead, which should apply them to React state with skipsDiagramUpdate set,
+ * as useGoModelState's handleModelChange does, and not broadcast or save them again.
+ * While they are being applied isApplyingRemote returns true.
+ * @param diagram the diagram whose model is shared, once it exists
+ * @param transport the channel to the other participants, or null to work alone
+ * @param clientId this participant's unique id
+ * @param onRemoteChange called with the remote changes made to the model
+ */
+export function useCollaboration(diagram: go.Diagram | null, transport: CollabTransport<CollabMessage> | null, clientId: string,
+                                 onRemoteChange: (obj: go.IncrementalData) => void): CollaborationState {
+  const session = useMemo(() => createCollabSession(clientId), [clientId]);
+  const [conflicts, setConflicts] = useState<Array<CollabConflict>>([]);
+  const applyingRemote = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (transport === null || diagram === null) return;
+    return transport.subscribe((msg: CollabMessage) => {
+      if (msg.type !== 'delta') return;
+      const result = session.receive(msg);
+      if (result.conflicts.length > 0) {
+        setConflicts((prev: Array<CollabConflict>) => prev.concat(result.conflicts));
+      }
+      if (result.changes === null) return;
+      applyingRemote.current = true;
+      try {
+        onRemoteChange(applyChangesToModel(diagram.model as go.GraphLinksModel, result.changes));
+      } finally {
+        applyingRemote.current = false;
+      }
+    });
+  }, [diagram, transport, session, onRemoteChange]);
+
+  const isApplyingRemote = useCallback(() => applyingRemote.current, []);
+
+  const broadcast = useCallback((obj: go.IncrementalData) => {
+    if (transport === null || applyingRemote.current) return;
+    transport.send(session.stampLocal(obj));
+  }, [transport, session]);
+
+  const clearConflicts = useCallback(() => {
+    setConflicts([]);
+  }, []);
+
+  return { clientId, conflicts, clearConflicts, isApplyingRemote, broadcast };
+}
@@ -0,0 +1,90 @@
+import * as go from 'gojs';
+
+import { createElement } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+
+import { sampleDiagram } from '../model/sampleDiagram';
+import { createRestDiagramRepository, DiagramRepository, toFullDelta } from '../persistence/diagramRepository';
+import { createMockDiagramServer } from '../persistence/mockDiagramServer';
+import { DiagramRepositoryState, useDiagramRepository } from './useDiagramRepository';
+import { DiagramContents } from './useGoModelState';
+
+// let the mock server's responses and the state updates after them go through
+function settle(): Promise<void> {
+  return act(() => new Promise<void>((resolve) => setTimeout(resolve, 10)));
+}
+
+describe('useDiagramRepository', () => {
+  let container: HTMLElement;
+  let repository: DiagramRepository;
+  let state: DiagramRepositoryState;
+  let replaceDiagram: jest.Mock;
+  let onSaved: jest.Mock;
+
+  function Harness(props: { contents: DiagramContents; initialId?: string }) {
+    state = useDiagramRepository(repository, props.contents, replaceDiagram, props.initialId, onSaved);
+    return null;
+  }
+
+  function mount(contents: DiagramContents, initialId?: string) {
+    act(() => {
+      render(createElement(Harness, { contents, initialId }), container);
+    });
+  }
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    repository = createRestDiagramRepository('/api', createMockDiagramServer('/api', { sample: sampleDiagram }));
+    replaceDiagram = jest.fn();
+    onSaved = jest.fn();
+  });
+
+  afterEach(() => {
+    unmountComponentAtNode(container);
+  });
+
+  it('lists the diagrams and opens the initial one on mount', async () => {
+    mount(sampleDiagram, 'sample');
+    expect(state.status).toBe('loading');
+    await settle();
+    expect(replaceDiagram).toHaveBeenCalledWith(sampleDiagram);
+    expect(state.currentId).toBe('sample');
+    expect(state.status).toBe('idle');
+    expect(state.diagrams.map((d) => d.id)).toEqual(['sample']);
+  });
+
+  it('saves the recorded changes to an open diagram, and the full diagram to a new one', async () => {
+    const save = jest.spyOn(repository, 'save');
+    mount(sampleDiagram, 'sample');
+    await settle();
+    const change: go.IncrementalData = { modifiedNodeData: [{ ...sampleDiagram.nodeDataArray[0], text: 'Alpha 2' }] };
+    act(() => state.recordChanges(change));
+    expect(state.pendingChanges).toBe(1);
+    await act(() => state.save());
+    expect(save).toHaveBeenLastCalledWith('sample', [change]);
+    expect(state.pendingChanges).toBe(0);
+    await act(() => state.saveAs('copy'));
+    expect(save).toHaveBeenLastCalledWith('copy', [toFullDelta(sampleDiagram)]);
+    expect(state.currentId).toBe('copy');
+    expect(onSaved).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failures and keeps the changes that failed to save', async () => {
+    mount(sampleDiagram);
+    await settle();
+    await act(() => state.open('missing'));
+    expect(state.status).toBe('error');
+    expect(state.error).toBe('GET /api/diagrams/missing failed: 404 Not Found');
+    expect(replaceDiagram).not.toHaveBeenCalled();
+
+    await act(() => state.open('sample'));
+    repository.save = () => Promise.reject(new Error('PATCH /api/diagrams/sample failed: 500 Internal Server Error'));
+    act(() => state.recordChanges({ removedNodeKeys: [3] }));
+    await act(() => state.save());
+    expect(state.status).toBe('error');
+    expect(state.error).toBe('PATCH /api/diagrams/sample failed: 500 Internal Server Error');
+    expect(state.pendingChanges).toBe(1);
+    expect(onSaved).not.toHaveBeenCalled();
+  });
+});
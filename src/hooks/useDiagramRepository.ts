@@ -0,0 +1,170 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { DiagramRepository, DiagramSummary, toFullDelta } from '../persistence/diagramRepository';
+import { DiagramContents, KeyedData } from './useGoModelState';
+
+export type RepositoryStatus = 'idle' | 'loading' | 'saving' | 'error';
+
+export interface DiagramRepositoryState {
+  diagrams: Array<DiagramSummary>;
+  currentId: string | null;
+  status: RepositoryStatus;
+  error: string | null;
+  pendingChanges: number;
+  refresh: () => Promise<void>;
+  open: (id: string) => Promise<void>;
+  save: () => Promise<void>;
+  saveAs: (id: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  recordChanges: (obj: go.IncrementalData) => void;
+  detach: () => void;
+}
+
+/**
+ * Load and save the diagram through a DiagramRepository.
+ * Pass every go.IncrementalData from the model to recordChanges; they are queued and sent in order on save.
+ * The changes GoJS reports when merging a freshly opened diagram are not recorded, since the repository already has them.
+ * Call detach when the diagram is replaced from anywhere else, such as a file, so it isn't saved over the current one.
+ * @param repository where diagrams are kept
+ * @param contents the current nodes, links and modelData, used by saveAs
+ * @param replaceDiagram called with the contents of an opened diagram
+ * @param initialId the diagram to open on mount, if any
+ * @param onSaved called after each successful save or saveAs
+ */
+export function useDiagramRepository<N extends KeyedData, L extends KeyedData>(
+  repository: DiagramRepository<N, L>,
+  contents: DiagramContents<N, L>,
+  replaceDiagram: (contents: DiagramContents<N, L>) => void,
+  initialId?: string,
+  onSaved?: () => void
+): DiagramRepositoryState {
+  const [diagrams, setDiagrams] = useState<Array<DiagramSummary>>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [status, setStatus] = useState<RepositoryStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<number>(0);
+  const [openCount, setOpenCount] = useState<number>(0);
+  const pending = useRef<Array<go.IncrementalData>>([]);
+  const ignoresChanges = useRef<boolean>(false);
+  const openSeq = useRef<number>(0);  // counts opens and detaches, so a load finishing after a later one is dropped
+
+  // the merge of an opened diagram into the GoJS model happens during the commit that renders it,
+  // so by the time this effect runs those changes have been reported and ignored
+  useEffect(() => {
+    ignoresChanges.current = false;
+  }, [openCount]);
+
+  const fail = useCallback((ex: Error) => {
+    setError(ex.message);
+    setStatus('error');
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDiagrams(await repository.list());
+    } catch (ex) {
+      fail(ex);
+    }
+  }, [repository, fail]);
+
+  const open = useCallback(async (id: string) => {
+    const seq = ++openSeq.current;
+    setStatus('loading');
+    setError(null);
+    try {
+      const loaded = await repository.load(id);
+      if (seq !== openSeq.current) return;
+      pending.current = [];
+      setPendingChanges(0);
+      ignoresChanges.current = true;
+      replaceDiagram(loaded);
+      setCurrentId(id);
+      setOpenCount((n: number) => n + 1);
+      setStatus('idle');
+    } catch (ex) {
+      if (seq === openSeq.current) fail(ex);
+    }
+  }, [repository, replaceDiagram, fail]);
+
+  /**
+   * Send the queued changes. Changes recorded while saving stay queued for the next save,
+   * and on failure the sent changes are put back in front of them.
+   */
+  const save = useCallback(async () => {
+    if (currentId === null || pending.current.length === 0) return;
+    const changes = pending.current;
+    pending.current = [];
+    setStatus('saving');
+    setError(null);
+    try {
+      await repository.save(currentId, changes);
+      setStatus('idle');
+      if (onSaved) onSaved();
+      await refresh();
+    } catch (ex) {
+      pending.current = changes.concat(pending.current);
+      fail(ex);
+    }
+    setPendingChanges(pending.current.length);
+  }, [repository, currentId, refresh, fail, onSaved]);
+
+  /**
+   * Save the whole diagram under a new id and make it the current diagram.
+   */
+  const saveAs = useCallback(async (id: string) => {
+    setStatus('saving');
+    setError(null);
+    try {
+      await repository.save(id, [toFullDelta(contents)]);
+      pending.current = [];
+      setPendingChanges(0);
+      setCurrentId(id);
+      setStatus('idle');
+      if (onSaved) onSaved();
+      await refresh();
+    } catch (ex) {
+      fail(ex);
+    }
+  }, [repository, contents, refresh, fail, onSaved]);
+
+  const remove = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      await repository.delete(id);
+      if (id === currentId) setCurrentId(null);
+      await refresh();
+    } catch (ex) {
+      fail(ex);
+    }
+  }, [repository, currentId, refresh, fail]);
+
+  const recordChanges = useCallback((obj: go.IncrementalData) => {
+    if (ignoresChanges.current) return;
+    pending.current.push(obj);
+    setPendingChanges(pending.current.length);
+  }, []);
+
+  /**
+   * Forget the current diagram and its queued changes, and drop any open still loading,
+   * since the diagram has been replaced from elsewhere. It can then only be saved with saveAs.
+   */
+  const detach = useCallback(() => {
+    openSeq.current++;
+    pending.current = [];
+    setPendingChanges(0);
+    setCurrentId(null);
+    setStatus('idle');
+  }, []);
+
+  // the first render's functions are kept so that listing and opening happen only on mount
+  const onMount = useRef({ refresh, open, initialId });
+  useEffect(() => {
+    const first = onMount.current;
+    first.refresh();
+    if (first.initialId !== undefined) first.open(first.initialId);
+  }, []);
+
+  return { diagrams, currentId, status, error, pendingChanges, refresh, open, save, saveAs, remove, recordChanges, detach };
+}
@@ -0,0 +1,87 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { describeResult, findPartFor, highlightResults, nodeTextIndex, parseSearchQuery, searchDiagram } from '../model/search';
+import { DiagramContents, KeyedData, SelectedData } from './useGoModelState';
+
+export interface DiagramSearch<N extends KeyedData, L extends KeyedData> {
+  query: string;
+  setQuery: (query: string) => void;
+  results: Array<SelectedData<N, L>>;
+  current: number;  // the index of the result last stepped to, or -1
+  describe: (sd: SelectedData) => string;
+  goTo: (index: number) => void;
+  next: () => void;
+  previous: () => void;
+  selectAll: () => void;
+}
+
+/**
+ * Search the diagram's data as the query changes, highlighting the matching parts and dimming the rest
+ * until the query is cleared. Stepping through the results scrolls to each one and selects it,
+ * so the inspector follows.
+ * @param diagram the diagram to highlight in, once it exists
+ * @param data the current nodes and links
+ */
+export function useDiagramSearch<N extends KeyedData, L extends KeyedData>(diagram: go.Diagram | null, data: DiagramContents<N, L>): DiagramSearch<N, L> {
+  const [query, setQueryState] = useState<string>('');
+  const [current, setCurrent] = useState<number>(-1);
+
+  const { nodeDataArray, linkDataArray } = data;
+  const terms = useMemo(() => parseSearchQuery(query), [query]);
+  const results = useMemo(
+    () => searchDiagram({ nodeDataArray, linkDataArray, modelData: {} }, terms),
+    [nodeDataArray, linkDataArray, terms]
+  );
+
+  const nodeText = useMemo(() => nodeTextIndex(nodeDataArray), [nodeDataArray]);
+  const describe = useCallback((sd: SelectedData) => describeResult(sd, nodeText), [nodeText]);
+
+  // highlight again whenever the results change, since new parts need dimming too,
+  // but only clear highlights made here, not those of other tools
+  const active = terms.length > 0;
+  const highlighted = useRef<boolean>(false);
+  useEffect(() => {
+    if (diagram === null || (!active && !highlighted.current)) return;
+    highlightResults(diagram, active ? results : null);
+    highlighted.current = active;
+  }, [diagram, active, results]);
+
+  useEffect(() => {
+    return () => {
+      if (diagram !== null && highlighted.current) highlightResults(diagram, null);
+      highlighted.current = false;
+    };
+  }, [diagram]);
+
+  const setQuery = useCallback((q: string) => {
+    setQueryState(q);
+    setCurrent(-1);
+  }, []);
+
+  const goTo = useCallback((index: number) => {
+    if (diagram === null || results.length === 0) return;
+    const idx = (index + results.length) % results.length;
+    setCurrent(idx);
+    const part = findPartFor(diagram, results[idx]);
+    if (part === null) return;
+    diagram.select(part);
+    diagram.commandHandler.scrollToPart(part);
+  }, [diagram, results]);
+
+  const next = useCallback(() => goTo(current + 1), [goTo, current]);
+  const previous = useCallback(() => goTo(current < 0 ? -1 : current - 1), [goTo, current]);
+
+  const selectAll = useCallback(() => {
+    if (diagram === null) return;
+    const parts = new go.List<go.Part>();
+    results.forEach((sd: SelectedData<N, L>) => {
+      const part = findPartFor(diagram, sd);
+      if (part !== null) parts.add(part);
+    });
+    diagram.selectCollection(parts);
+  }, [diagram, results]);
+
+  return { query, setQuery, results, current: current < results.length ? current : -1, describe, goTo, next, previous, selectAll };
+}
@@ -0,0 +1,166 @@
+import * as go from 'gojs';
+
+import { createElement } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+
+import { DataSchema } from '../model/schema';
+import { applyIncrementalData, DiagramData, GoModelOptions, GoModelState, KeyedData, useGoModelState } from './useGoModelState';
+
+type Node = KeyedData & { text?: string; group?: go.Key; isGroup?: boolean };
+type Link = KeyedData & { from: go.Key; to: go.Key };
+
+function sample(): DiagramData<Node, Link> {
+  return {
+    nodeDataArray: [{ key: 0, text: 'Alpha' }, { key: 1, text: 'Beta' }, { key: 2, text: 'Gamma' }],
+    linkDataArray: [{ key: -1, from: 0, to: 1 }, { key: -2, from: 1, to: 2 }],
+    modelData: {},
+    selectedData: [],
+    skipsDiagramUpdate: false
+  };
+}
+
+describe('applyIncrementalData', () => {
+  it('applies inserts, modifications and removals from one transaction', () => {
+    const draft = sample();
+    applyIncrementalData(draft, {
+      insertedNodeKeys: [3],
+      modifiedNodeData: [{ key: 1, text: 'Beta 2' }, { key: 3, text: 'Delta' }],
+      removedNodeKeys: [2],
+      insertedLinkKeys: [-3],
+      modifiedLinkData: [{ key: -3, from: 1, to: 3 }],
+      removedLinkKeys: [-2],
+      modelData: { version: 2 }
+    });
+    expect(draft.nodeDataArray).toEqual([{ key: 0, text: 'Alpha' }, { key: 1, text: 'Beta 2' }, { key: 3, text: 'Delta' }]);
+    expect(draft.linkDataArray).toEqual([{ key: -1, from: 0, to: 1 }, { key: -3, from: 1, to: 3 }]);
+    expect(draft.modelData).toEqual({ version: 2 });
+    expect(draft.skipsDiagramUpdate).toBe(true);
+  });
+
+  it("doesn't insert data that is already there", () => {
+    const draft = sample();
+    applyIncrementalData(draft, { insertedNodeKeys: [0], modifiedNodeData: [{ key: 0, text: 'Alpha 2' }] });
+    expect(draft.nodeDataArray).toHaveLength(3);
+    expect(draft.nodeDataArray[0]).toEqual({ key: 0, text: 'Alpha 2' });
+  });
+
+  it('updates selected data and drops removed data from the selection', () => {
+    const draft = sample();
+    draft.selectedData = [
+      { kind: 'node', data: draft.nodeDataArray[0] },
+      { kind: 'node', data: draft.nodeDataArray[2] },
+      { kind: 'link', data: draft.linkDataArray[1] }
+    ];
+    applyIncrementalData(draft, {
+      modifiedNodeData: [{ key: 0, text: 'Alpha 2' }],
+      removedNodeKeys: [2],
+      removedLinkKeys: [-2]
+    });
+    expect(draft.selectedData).toEqual([{ kind: 'node', data: { key: 0, text: 'Alpha 2' } }]);
+  });
+
+  it('keeps node and link selections with the same key apart', () => {
+    const draft = sample();
+    draft.linkDataArray.push({ key: 0, from: 2, to: 0 });
+    draft.selectedData = [{ kind: 'node', data: draft.nodeDataArray[0] }, { kind: 'link', data: draft.linkDataArray[2] }];
+    applyIncrementalData(draft, { removedLinkKeys: [0] });
+    expect(draft.selectedData).toEqual([{ kind: 'node', data: { key: 0, text: 'Alpha' } }]);
+  });
+});
+
+describe('useGoModelState', () => {
+  let container: HTMLElement;
+  let state: GoModelState<Node, Link>;
+
+  function Harness(props: { initialData: DiagramData<Node, Link>; options?: GoModelOptions }) {
+    state = useGoModelState<Node, Link>(props.initialData, props.options);
+    return null;
+  }
+
+  function mount(initialData: DiagramData<Node, Link>, options?: GoModelOptions) {
+    act(() => {
+      render(createElement(Harness, { initialData, options }), container);
+    });
+  }
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    unmountComponentAtNode(container);
+  });
+
+  it('applies model changes without merging them back into the diagram', () => {
+    mount(sample());
+    act(() => {
+      state.handleModelChange({ insertedNodeKeys: [3], modifiedNodeData: [{ key: 3, text: 'Delta' }], removedNodeKeys: [0] });
+    });
+    expect(state.diagram.nodeDataArray.map((nd: Node) => nd.key)).toEqual([1, 2, 3]);
+    expect(state.diagram.skipsDiagramUpdate).toBe(true);
+    expect(state.mapNodeKeyIdx.get(3)).toBe(2);
+  });
+
+  it('keeps model changes breaking the schema out of state', () => {
+    const nodeSchema: DataSchema = {
+      properties: { key: { type: 'key', required: true }, text: { type: 'string', required: true } }
+    };
+    mount(sample(), { nodeSchema });
+    let accepted = true;
+    act(() => {
+      accepted = state.handleModelChange({
+        insertedNodeKeys: [3, 4],
+        modifiedNodeData: [{ key: 0, text: 'Alpha', colr: 'red' }, { key: 1, text: 'Beta 2' }, { key: 3, text: 'Delta' }, { key: 4 }]
+      });
+    });
+    expect(accepted).toBe(false);
+    expect(state.diagram.nodeDataArray).toEqual([
+      { key: 0, text: 'Alpha' }, { key: 1, text: 'Beta 2' }, { key: 2, text: 'Gamma' }, { key: 3, text: 'Delta' }
+    ]);
+    expect(state.schemaViolations.map((v) => [v.key, v.property])).toEqual([[0, 'colr'], [4, 'text']]);
+  });
+
+  it('updates a node and the selection holding it', () => {
+    mount(sample());
+    act(() => state.setSelection([1], []));
+    let ok = false;
+    act(() => {
+      ok = state.updateNode(1, { text: 'Beta 2' });
+    });
+    expect(ok).toBe(true);
+    expect(state.diagram.nodeDataArray[1]).toEqual({ key: 1, text: 'Beta 2' });
+    expect(state.diagram.selectedData).toEqual([{ kind: 'node', data: { key: 1, text: 'Beta 2' } }]);
+    expect(state.diagram.skipsDiagramUpdate).toBe(false);
+    act(() => {
+      ok = state.updateNode(9, { text: 'Missing' });
+    });
+    expect(ok).toBe(false);
+  });
+
+  it('updates a link', () => {
+    mount(sample());
+    let ok = false;
+    act(() => {
+      ok = state.updateLink(-2, { to: 0 });
+    });
+    expect(ok).toBe(true);
+    expect(state.diagram.linkDataArray[1]).toEqual({ key: -2, from: 1, to: 0 });
+  });
+
+  it('removes a node with its links, group members and selection', () => {
+    const data = sample();
+    data.nodeDataArray.push({ key: 'g', isGroup: true }, { key: 'm', group: 'g' });
+    data.linkDataArray.push({ key: -3, from: 'm', to: 0 });
+    mount(data);
+    act(() => state.setSelection([1, 'm'], [-1]));
+    act(() => state.removeNode(1));
+    expect(state.diagram.nodeDataArray.map((nd: Node) => nd.key)).toEqual([0, 2, 'g', 'm']);
+    expect(state.diagram.linkDataArray.map((ld: Link) => ld.key)).toEqual([-3]);
+    expect(state.diagram.selectedData.map((sd) => sd.data.key)).toEqual(['m']);
+    act(() => state.removeNode('g'));
+    expect(state.diagram.nodeDataArray.map((nd: Node) => nd.key)).toEqual([0, 2]);
+    expect(state.diagram.linkDataArray).toEqual([]);
+    expect(state.diagram.selectedData).toEqual([]);
+  });
+});
@@ -0,0 +1,435 @@
+import * as go from 'gojs';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useImmer } from 'use-immer';
+
+import { RuleViolation, ValidationRule, validateRules } from '../model/rules';
+import { DataSchema, filterIncrementalData, SchemaViolation, validateData } from '../model/schema';
+
+/**
+ * The minimum shape of node and link data: every datum needs a unique key
+ * since we'll be using a GraphLinksModel with a linkKeyProperty.
+ */
+export type KeyedData = {
+  key: go.Key;
+};
+
+/**
+ * A selected node or link. Node keys and link keys are separate, and may be numbers or strings of any form,
+ * so the kind of data can't be told from its key and is recorded alongside it.
+ */
+export type SelectedData<N extends KeyedData = KeyedData, L extends KeyedData = KeyedData> =
+  { kind: 'node'; data: N } | { kind: 'link'; data: L };
+
+/**
+ * Use a linkDataArray since we'll be using a GraphLinksModel,
+ * and modelData for demonstration purposes. Note, though, that
+ * both are optional props in ReactDiagram.
+ */
+export type DiagramData<N extends KeyedData = KeyedData, L extends KeyedData = KeyedData> = {
+  nodeDataArray: Array<N>;
+  linkDataArray: Array<L>;
+  modelData: go.ObjectData;
+  selectedData: Array<SelectedData<N, L>>;
+  skipsDiagramUpdate: boolean;
+}
+
+/**
+ * The part of DiagramData that describes the diagram itself, as opposed to UI state,
+ * and so is what gets saved and loaded.
+ */
+export type DiagramContents<N extends KeyedData = KeyedData, L extends KeyedData = KeyedData> =
+  Pick<DiagramData<N, L>, 'nodeDataArray' | 'linkDataArray' | 'modelData'>;
+
+export interface GoModelOptions {
+  nodeSchema?: DataSchema;
+  linkSchema?: DataSchema;
+  rules?: Array<ValidationRule>;
+}
+
+export interface GoModelState<N extends KeyedData, L extends KeyedData> {
+  diagram: DiagramData<N, L>;
+  updateDiagram: (f: (draft: DiagramData<N, L>) => void) => void;
+  mapNodeKeyIdx: Map<go.Key, number>;
+  mapLinkKeyIdx: Map<go.Key, number>;
+  schemaViolations: Array<SchemaViolation>;
+  clearSchemaViolations: () => void;
+  ruleViolations: Array<RuleViolation>;
+  handleModelChange: (obj: go.IncrementalData) => boolean;
+  updateNode: (key: go.Key, changes: Partial<N>) => boolean;
+  updateLink: (key: go.Key, changes: Partial<L>) => boolean;
+  updateSelection: (changes: go.ObjectData) => boolean;
+  checkSelectionUpdate: (changes: go.ObjectData) => boolean;
+  removeNode: (key: go.Key) => void;
+  replaceDiagram: (contents: DiagramContents<N, L>) => void;
+  setSelection: (nodeKeys: Array<go.Key>, linkKeys: Array<go.Key>) => void;
+  clearSelection: () => void;
+}
+
+/**
+ * Build a map of data keys to their index in the array.
+ */
+export function makeKeyIndex(arr: Array<KeyedData>): Map<go.Key, number> {
+  const map = new Map<go.Key, number>();
+  arr.forEach((d: KeyedData, idx: number) => {
+    map.set(d.key, idx);
+  });
+  return map;
+}
+
+/**
+ * Look up the index of a key, falling back to a scan if the map is out of date with the array,
+ * which happens when several updates are batched before the map is rebuilt.
+ */
+function indexOfKey(arr: Array<KeyedData>, map: Map<go.Key, number>, key: go.Key): number {
+  const idx = map.get(key);
+  if (idx !== undefined && idx >= 0 && idx < arr.length && arr[idx].key === key) return idx;
+  return arr.findIndex((d: KeyedData) => d.key === key);
+}
+
+/**
+ * Replace the selected data of the same kind having the same key, if any, so the selection reflects the latest data.
+ */
+function replaceSelected<N extends KeyedData, L extends KeyedData>(draft: DiagramData<N, L>, selected: SelectedData<N, L>): void {
+  const idx = draft.selectedData.findIndex((sd: SelectedData<N, L>) => sd.kind === selected.kind && sd.data.key === selected.data.key);
+  if (idx >= 0) draft.selectedData[idx] = selected;
+}
+
+/**
+ * Find the current data in state for a selected node or link.
+ * @return the index into the node or link array, or -1 if it no longer exists
+ */
+function indexOfSelected<N extends KeyedData, L extends KeyedData>(diagram: DiagramData<N, L>, sd: SelectedData<N, L>,
+                                                                   mapNodeKeyIdx: Map<go.Key, number>, mapLinkKeyIdx: Map<go.Key, number>): number {
+  return sd.kind === 'node'
+    ? indexOfKey(diagram.nodeDataArray, mapNodeKeyIdx, sd.data.key)
+    : indexOfKey(diagram.linkDataArray, mapLinkKeyIdx, sd.data.key);
+}
+
+/**
+ * Apply the changes from Model.toIncrementalData to a DiagramData draft.
+ * Modifications are applied first so that inserted keys can be looked up in the modified data,
+ * then removals filter the arrays. Since the GoJS model already knows about these updates,
+ * skipsDiagramUpdate is set so they aren't merged back into the model.
+ * @param draft a mutable DiagramData, usually an immer draft
+ * @param obj the incremental changes from the GoJS model
+ */
+export function applyIncrementalData<N extends KeyedData, L extends KeyedData>(draft: DiagramData<N, L>, obj: go.IncrementalData): void {
+  const insertedNodeKeys = obj.insertedNodeKeys;
+  const modifiedNodeData = obj.modifiedNodeData;
+  const removedNodeKeys = obj.removedNodeKeys;
+  const insertedLinkKeys = obj.insertedLinkKeys;
+  const modifiedLinkData = obj.modifiedLinkData;
+  const removedLinkKeys = obj.removedLinkKeys;
+  const modifiedModelData = obj.modelData;
+
+  // maintain maps of modified data so insertions don't need slow lookups
+  const modifiedNodeMap = new Map<go.Key, N>();
+  const modifiedLinkMap = new Map<go.Key, L>();
+
+  const mapNodeKeyIdx = makeKeyIndex(draft.nodeDataArray);
+  const narr = draft.nodeDataArray;
+  if (modifiedNodeData) {
+    modifiedNodeData.forEach((obj: go.ObjectData) => {
+      const nd = obj as N;
+      modifiedNodeMap.set(nd.key, nd);
+      const idx = mapNodeKeyIdx.get(nd.key);
+      if (idx !== undefined && idx >= 0) {
+        narr[idx] = nd;
+        replaceSelected(draft, { kind: 'node', data: nd });
+      }
+    });
+  }
+  if (insertedNodeKeys) {
+    insertedNodeKeys.forEach((key: go.Key) => {
+      const nd = modifiedNodeMap.get(key);
+      const idx = mapNodeKeyIdx.get(key);
+      if (nd && idx === undefined) {  // nodes won't be added if they already exist
+        mapNodeKeyIdx.set(nd.key, narr.length);
+        narr.push(nd);
+      }
+    });
+  }
+  if (removedNodeKeys) {
+    draft.nodeDataArray = narr.filter((nd: N) => !removedNodeKeys.includes(nd.key));
+    draft.selectedData = draft.selectedData.filter((sd: SelectedData<N, L>) => sd.kind !== 'node' || !removedNodeKeys.includes(sd.data.key));
+  }
+
+  const mapLinkKeyIdx = makeKeyIndex(draft.linkDataArray);
+  const larr = draft.linkDataArray;
+  if (modifiedLinkData) {
+    modifiedLinkData.forEach((obj: go.ObjectData) => {
+      const ld = obj as L;
+      modifiedLinkMap.set(ld.key, ld);
+      const idx = mapLinkKeyIdx.get(ld.key);
+      if (idx !== undefined && idx >= 0) {
+        larr[idx] = ld;
+        replaceSelected(draft, { kind: 'link', data: ld });
+      }
+    });
+  }
+  if (insertedLinkKeys) {
+    insertedLinkKeys.forEach((key: go.Key) => {
+      const ld = modifiedLinkMap.get(key);
+      const idx = mapLinkKeyIdx.get(key);
+      if (ld && idx === undefined) {  // links won't be added if they already exist
+        mapLinkKeyIdx.set(ld.key, larr.length);
+        larr.push(ld);
+      }
+    });
+  }
+  if (removedLinkKeys) {
+    draft.linkDataArray = larr.filter((ld: L) => !removedLinkKeys.includes(ld.key));
+    draft.selectedData = draft.selectedData.filter((sd: SelectedData<N, L>) => sd.kind !== 'link' || !removedLinkKeys.includes(sd.data.key));
+  }
+
+  // handle model data changes, for now just replacing with the supplied object
+  if (modifiedModelData) {
+    draft.modelData = modifiedModelData;
+  }
+  draft.skipsDiagramUpdate = true;  // the GoJS model already knows about these updates
+}
+
+/**
+ * Owns the DiagramData state for a ReactDiagram and keeps it in sync with the GoJS model.
+ * Pass handleModelChange to the diagram's onModelChange, and use the update helpers
+ * for changes originating in React, which will be merged into the GoJS model.
+ *
+ * If schemas are given, data coming back from the GoJS model is checked and any violations are reported
+ * in schemaViolations. Invalid node and link data is kept out of state, so state keeps its previous version
+ * of modified data and never gets invalid inserted data; useSchemaEnforcement rolls back the GoJS transaction
+ * that made it, bringing the model back in line with state.
+ * Updates made through updateNode/updateLink/updateSelection are rejected if they would violate the schema.
+ *
+ * If rules are given, the whole diagram is checked against them whenever its nodes or links change,
+ * and the result is in ruleViolations, which only empties once the diagram keeps every rule again.
+ * @param initialData the starting nodes, links and model data
+ * @param options optional node and link schemas and validation rules
+ */
+export function useGoModelState<N extends KeyedData, L extends KeyedData>(initialData: DiagramData<N, L>, options: GoModelOptions = {}): GoModelState<N, L> {
+  const { nodeSchema, linkSchema, rules } = options;
+  const [diagram, updateDiagram] = useImmer<DiagramData<N, L>>(initialData);
+  const [schemaViolations, setSchemaViolations] = useState<Array<SchemaViolation>>([]);
+
+  // Maps to store key -> arr index for quick lookups
+  const mapNodeKeyIdx = useMemo(() => makeKeyIndex(diagram.nodeDataArray), [diagram.nodeDataArray]);
+  const mapLinkKeyIdx = useMemo(() => makeKeyIndex(diagram.linkDataArray), [diagram.linkDataArray]);
+
+  // immer's Draft type doesn't play well with generic data, so expose the updater in terms of DiagramData
+  const update = updateDiagram as (f: (draft: DiagramData<N, L>) => void) => void;
+
+  const ruleViolations = useMemo(
+    () => rules ? validateRules({ nodeDataArray: diagram.nodeDataArray, linkDataArray: diagram.linkDataArray, modelData: {} }, rules) : [],
+    [diagram.nodeDataArray, diagram.linkDataArray, rules]
+  );
+
+  const clearSchemaViolations = useCallback(() => {
+    setSchemaViolations([]);
+  }, []);
+
+  /**
+   * Handle GoJS model changes, which output an object of data changes via Model.toIncrementalData,
+   * writing the valid changes to state and reporting the rest.
+   * @return false if some of the changes were kept out of state for violating a schema
+   */
+  const handleModelChange = useCallback((obj: go.IncrementalData): boolean => {
+    const { valid, violations } = filterIncrementalData(obj, nodeSchema, linkSchema);
+    if (violations.length > 0) setSchemaViolations(violations);
+    update((draft: DiagramData<N, L>) => {
+      applyIncrementalData(draft, valid);
+    });
+    return violations.length === 0;
+  }, [update, nodeSchema, linkSchema]);
+
+  /**
+   * Validate data that is about to be written by an update helper.
+   * On failure, the violations are reported and the selection is reset to the data in state,
+   * discarding any uncommitted edits made to it.
+   */
+  const checkUpdate = useCallback((arr: Array<KeyedData>, schema: DataSchema | undefined): boolean => {
+    if (!schema) return true;
+    let violations: Array<SchemaViolation> = [];
+    arr.forEach((data: KeyedData) => {
+      violations = violations.concat(validateData(data, schema));
+    });
+    if (violations.length === 0) return true;
+    setSchemaViolations(violations);
+    update((draft: DiagramData<N, L>) => {
+      draft.selectedData = draft.selectedData.map((sd: SelectedData<N, L>) => {
+        const idx = indexOfSelected(draft, sd, mapNodeKeyIdx, mapLinkKeyIdx);
+        if (idx < 0) return sd;
+        return sd.kind === 'node'
+          ? { kind: 'node', data: draft.nodeDataArray[idx] }
+          : { kind: 'link', data: draft.linkDataArray[idx] };
+      });
+    });
+    return false;
+  }, [update, mapNodeKeyIdx, mapLinkKeyIdx]);
+
+  /**
+   * Merge changes into the node data with the given key.
+   * @return false if the node doesn't exist or the result would violate the node schema
+   */
+  const updateNode = useCallback((key: go.Key, changes: Partial<N>): boolean => {
+    const idx = indexOfKey(diagram.nodeDataArray, mapNodeKeyIdx, key);
+    if (idx < 0) return false;
+    if (!checkUpdate([{ ...diagram.nodeDataArray[idx], ...changes }], nodeSchema)) return false;
+    update((draft: DiagramData<N, L>) => {
+      const idx = indexOfKey(draft.nodeDataArray, mapNodeKeyIdx, key);
+      if (idx < 0) return;
+      const nd = { ...draft.nodeDataArray[idx], ...changes };
+      draft.nodeDataArray[idx] = nd;
+      replaceSelected(draft, { kind: 'node', data: nd });
+      draft.skipsDiagramUpdate = false;
+    });
+    return true;
+  }, [update, diagram.nodeDataArray, mapNodeKeyIdx, checkUpdate, nodeSchema]);
+
+  /**
+   * Merge changes into the link data with the given key.
+   * @return false if the link doesn't exist or the result would violate the link schema
+   */
+  const updateLink = useCallback((key: go.Key, changes: Partial<L>): boolean => {
+    const idx = indexOfKey(diagram.linkDataArray, mapLinkKeyIdx, key);
+    if (idx < 0) return false;
+    if (!checkUpdate([{ ...diagram.linkDataArray[idx], ...changes }], linkSchema)) return false;
+    update((draft: DiagramData<N, L>) => {
+      const idx = indexOfKey(draft.linkDataArray, mapLinkKeyIdx, key);
+      if (idx < 0) return;
+      const ld = { ...draft.linkDataArray[idx], ...changes };
+      draft.linkDataArray[idx] = ld;
+      replaceSelected(draft, { kind: 'link', data: ld });
+      draft.skipsDiagramUpdate = false;
+    });
+    return true;
+  }, [update, diagram.linkDataArray, mapLinkKeyIdx, checkUpdate, linkSchema]);
+
+  /**
+   * Check that merging changes into every selected node and link would leave them valid,
+   * for changes that will be made some other way, such as directly in the GoJS model.
+   * @return false if nothing is selected or the result for any selected data would violate its schema
+   */
+  const checkSelectionUpdate = useCallback((changes: go.ObjectData): boolean => {
+    const nodes: Array<KeyedData> = [];
+    const links: Array<KeyedData> = [];
+    diagram.selectedData.forEach((sd: SelectedData<N, L>) => {
+      const idx = indexOfSelected(diagram, sd, mapNodeKeyIdx, mapLinkKeyIdx);
+      if (idx < 0) return;
+      if (sd.kind === 'node') nodes.push({ ...diagram.nodeDataArray[idx], ...changes });
+      else links.push({ ...diagram.linkDataArray[idx], ...changes });
+    });
+    if (nodes.length === 0 && links.length === 0) return false;
+    return checkUpdate(nodes, nodeSchema) && checkUpdate(links, linkSchema);
+  }, [diagram, mapNodeKeyIdx, mapLinkKeyIdx, checkUpdate, nodeSchema, linkSchema]);
+
+  /**
+   * Merge changes into every selected node and link in a single update,
+   * so the GoJS model receives them in one transaction.
+   * @return false if the result for any selected data would violate its schema, in which case nothing is changed
+   */
+  const updateSelection = useCallback((changes: go.ObjectData): boolean => {
+    if (!checkSelectionUpdate(changes)) return false;
+    update((draft: DiagramData<N, L>) => {
+      draft.selectedData = draft.selectedData.map((sd: SelectedData<N, L>) => {
+        const idx = indexOfSelected(draft, sd, mapNodeKeyIdx, mapLinkKeyIdx);
+        if (idx < 0) return sd;
+        if (sd.kind === 'node') {
+          const nd = { ...draft.nodeDataArray[idx], ...changes } as N;
+          draft.nodeDataArray[idx] = nd;
+          return { kind: 'node', data: nd };
+        }
+        const ld = { ...draft.linkDataArray[idx], ...changes } as L;
+        draft.linkDataArray[idx] = ld;
+        return { kind: 'link', data: ld };
+      });
+      draft.skipsDiagramUpdate = false;
+    });
+    return true;
+  }, [update, mapNodeKeyIdx, mapLinkKeyIdx, checkSelectionUpdate]);
+
+  /**
+   * Remove the node data with the given key, along with any links connected to it.
+   * Removing a group also removes its members, as deleting it in the diagram would.
+   */
+  const removeNode = useCallback((key: go.Key) => {
+    update((draft: DiagramData<N, L>) => {
+      const removed = new Set<go.Key>([key]);
+      let added = true;
+      while (added) {  // members of members, however deeply nested
+        added = false;
+        for (let i = 0; i < draft.nodeDataArray.length; i++) {
+          const nd: go.ObjectData = draft.nodeDataArray[i];
+          if (nd.group !== undefined && removed.has(nd.group) && !removed.has(nd.key)) {
+            removed.add(nd.key);
+            added = true;
+          }
+        }
+      }
+      draft.nodeDataArray = draft.nodeDataArray.filter((nd: N) => !removed.has(nd.key));
+      draft.linkDataArray = draft.linkDataArray.filter((ld: go.ObjectData) => !removed.has(ld.from) && !removed.has(ld.to));
+      draft.selectedData = draft.selectedData.filter((sd: SelectedData<N, L>) => {
+        if (sd.kind === 'node') return !removed.has(sd.data.key);
+        const ld: go.ObjectData = sd.data;
+        return !removed.has(ld.from) && !removed.has(ld.to);
+      });
+      draft.skipsDiagramUpdate = false;
+    });
+  }, [update]);
+
+  /**
+   * Replace all of the nodes, links and modelData, for instance when loading a saved diagram.
+   * The GoJS model merges the new data, removing any nodes and links that aren't in it.
+   */
+  const replaceDiagram = useCallback((contents: DiagramContents<N, L>) => {
+    update((draft: DiagramData<N, L>) => {
+      draft.nodeDataArray = contents.nodeDataArray;
+      draft.linkDataArray = contents.linkDataArray;
+      draft.modelData = contents.modelData;
+      draft.selectedData = [];
+      draft.skipsDiagramUpdate = false;
+    });
+  }, [update]);
+
+  /**
+   * Set the selected data from the keys of the selected nodes and links.
+   */
+  const setSelection = useCallback((nodeKeys: Array<go.Key>, linkKeys: Array<go.Key>) => {
+    update((draft: DiagramData<N, L>) => {
+      const sel: Array<SelectedData<N, L>> = [];
+      nodeKeys.forEach((key: go.Key) => {
+        const idx = indexOfKey(draft.nodeDataArray, mapNodeKeyIdx, key);
+        if (idx >= 0) sel.push({ kind: 'node', data: draft.nodeDataArray[idx] });
+      });
+      linkKeys.forEach((key: go.Key) => {
+        const idx = indexOfKey(draft.linkDataArray, mapLinkKeyIdx, key);
+        if (idx >= 0) sel.push({ kind: 'link', data: draft.linkDataArray[idx] });
+      });
+      draft.selectedData = sel;
+    });
+  }, [update, mapNodeKeyIdx, mapLinkKeyIdx]);
+
+  const clearSelection = useCallback(() => {
+    update((draft: DiagramData<N, L>) => {
+      draft.selectedData = [];
+    });
+  }, [update]);
+
+  return {
+    diagram,
+    updateDiagram: update,
+    mapNodeKeyIdx,
+    mapLinkKeyIdx,
+    schemaViolations,
+    clearSchemaViolations,
+    ruleViolations,
+    handleModelChange,
+    updateNode,
+    updateLink,
+    updateSelection,
+    checkSelectionUpdate,
+    removeNode,
+    replaceDiagram,
+    setSelection,
+    clearSelection
+  };
+}
@@ -0,0 +1,118 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { findCycles, linksAmong, reachable, shortestPath, Subgraph, topologicalOrder } from '../model/graphAnalysis';
+import { highlightKeys, highlightParts } from '../model/highlight';
+import { nodeTextIndex } from '../model/search';
+import { DiagramContents, KeyedData } from './useGoModelState';
+
+export type AnalysisKind = 'path' | 'downstream' | 'upstream' | 'cycles' | 'order';
+
+export interface AnalysisItem {
+  title: string;
+  subgraph: Subgraph;
+}
+
+export interface AnalysisResult {
+  message: string;  // what was found, or why nothing was
+  items: Array<AnalysisItem>;  // such as each cycle, one of which is shown on the diagram at a time
+}
+
+export interface GraphAnalysis {
+  result: AnalysisResult | null;
+  shown: number;  // the index of the item highlighted on the diagram
+  run: (kind: AnalysisKind, selectedNodes: Array<go.Key>) => void;
+  show: (index: number) => void;
+  clear: () => void;
+}
+
+interface AnalysisRequest {
+  kind: AnalysisKind;
+  nodes: Array<go.Key>;
+}
+
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+function analyze(data: DiagramContents, request: AnalysisRequest): AnalysisResult {
+  const nodeText = nodeTextIndex(data.nodeDataArray);
+  const name = (key: go.Key) => nodeText.get(key) || String(key);
+  const chain = (keys: Array<go.Key>) => keys.map(name).join(' → ');
+  switch (request.kind) {
+    case 'path': {
+      const [from, to] = request.nodes;
+      const path = shortestPath(data, from, to);
+      if (path === null) return { message: `Nothing leads from ${name(from)} to ${name(to)}.`, items: [] };
+      return { message: plural(path.links.length, 'link'), items: [{ title: chain(path.nodes), subgraph: path }] };
+    }
+    case 'downstream':
+    case 'upstream': {
+      const reach = reachable(data, request.nodes, request.kind);
+      const subgraph = { nodes: [...request.nodes, ...reach.nodes], links: reach.links };
+      return {
+        message: `${plural(reach.nodes.length, 'node')} ${request.kind} of ${request.nodes.map(name).join(', ')}`,
+        items: reach.nodes.length === 0 ? [] : [{ title: reach.nodes.map(name).join(', '), subgraph }]
+      };
+    }
+    case 'cycles': {
+      const cycles = findCycles(data);
+      return {
+        message: cycles.length === 0 ? 'There are no cycles.' : plural(cycles.length, 'cycle'),
+        items: cycles.map((c: Subgraph) => ({ title: chain([...c.nodes, c.nodes[0]]), subgraph: c }))
+      };
+    }
+    case 'order': {
+      const { order, cyclic } = topologicalOrder(data);
+      const items = [{ title: order.map(name).join(', '), subgraph: { nodes: order, links: linksAmong(data, order) } }];
+      if (cyclic.length === 0) return { message: 'Every node can be ordered.', items };
+      return {
+        message: `${plural(cyclic.length, 'node')} can't be ordered, being on or after a cycle.`,
+        items: [...items, { title: cyclic.map(name).join(', '), subgraph: { nodes: cyclic, links: linksAmong(data, cyclic) } }]
+      };
+    }
+    default:
+      return { message: '', items: [] };
+  }
+}
+
+/**
+ * Run graph analyses on the diagram's data and highlight what they find, dimming the rest.
+ * An analysis keeps following the data as it is edited, until it is cleared.
+ * @param diagram the diagram to highlight in, once it exists
+ * @param data the current nodes and links
+ */
+export function useGraphAnalysis(diagram: go.Diagram | null, data: DiagramContents<KeyedData, KeyedData>): GraphAnalysis {
+  const [request, setRequest] = useState<AnalysisRequest | null>(null);
+  const [shown, setShown] = useState<number>(0);
+
+  const { nodeDataArray, linkDataArray } = data;
+  const result = useMemo(
+    () => request === null ? null : analyze({ nodeDataArray, linkDataArray, modelData: {} }, request),
+    [nodeDataArray, linkDataArray, request]
+  );
+  const item = result !== null && shown < result.items.length ? result.items[shown] : null;
+
+  // as with search, only clear highlights made here
+  const highlighted = useRef<boolean>(false);
+  useEffect(() => {
+    if (diagram === null) return;
+    if (result !== null) {
+      highlightKeys(diagram, item ? item.subgraph.nodes : [], item ? item.subgraph.links : []);
+      highlighted.current = true;
+    } else if (highlighted.current) {
+      highlightParts(diagram, null);
+      highlighted.current = false;
+    }
+  }, [diagram, result, item]);
+
+  const run = useCallback((kind: AnalysisKind, selectedNodes: Array<go.Key>) => {
+    setRequest({ kind, nodes: selectedNodes });
+    setShown(0);
+  }, []);
+
+  const clear = useCallback(() => setRequest(null), []);
+
+  return { result, shown, run, show: setShown, clear };
+}
@@ -0,0 +1,84 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { PresenceFeed, PresenceState } from '../collab/presence';
+import { PresenceRenderer } from '../PresenceRenderer';
+
+export interface PresenceIdentity {
+  clientId: string;
+  name: string;
+  color: string;
+}
+
+export interface PresenceHandle {
+  peers: Array<PresenceState>;
+  publishSelection: (nodeKeys: Array<go.Key>, linkKeys: Array<go.Key>) => void;
+}
+
+/**
+ * Publish our selection and mouse pointer to a presence feed, and draw everyone else's on the diagram.
+ * Pointer moves are published at most once per throttle interval.
+ * @param diagram the diagram to track and draw on, once it exists
+ * @param feed the presence feed, or null to work alone
+ * @param self who we are
+ * @param throttle minimum milliseconds between pointer updates
+ */
+export function usePresence(diagram: go.Diagram | null, feed: PresenceFeed | null, self: PresenceIdentity, throttle: number = 50): PresenceHandle {
+  const [peers, setPeers] = useState<Array<PresenceState>>([]);
+  const state = useRef<PresenceState>({ ...self, nodeKeys: [], linkKeys: [], pointer: null });
+  // one renderer per diagram, whose drawing is removed when the diagram changes or on unmount
+  const renderer = useMemo(() => diagram === null ? null : new PresenceRenderer(diagram), [diagram]);
+  useEffect(() => {
+    return () => {
+      if (renderer !== null) renderer.clear();
+    };
+  }, [renderer]);
+
+  const publish = useCallback(() => {
+    if (feed !== null) feed.publish(state.current);
+  }, [feed]);
+
+  useEffect(() => {
+    if (feed === null) return;
+    publish();
+    return feed.subscribe(setPeers);
+  }, [feed, publish]);
+
+  // draw the peers whenever they change, and all of them again on a new diagram
+  useEffect(() => {
+    if (renderer !== null) renderer.update(peers);
+  }, [renderer, peers]);
+
+  useEffect(() => {
+    if (diagram === null || diagram.div === null) return;
+    const div = diagram.div;
+    let lastSent = 0;
+    const handleMove = (e: MouseEvent) => {
+      const now = Date.now();
+      if (now - lastSent < throttle) return;
+      lastSent = now;
+      const rect = div.getBoundingClientRect();
+      const pt = diagram.transformViewToDoc(new go.Point(e.clientX - rect.left, e.clientY - rect.top));
+      state.current = { ...state.current, pointer: { x: pt.x, y: pt.y } };
+      publish();
+    };
+    const handleLeave = () => {
+      state.current = { ...state.current, pointer: null };
+      publish();
+    };
+    div.addEventListener('mousemove', handleMove);
+    div.addEventListener('mouseleave', handleLeave);
+    return () => {
+      div.removeEventListener('mousemove', handleMove);
+      div.removeEventListener('mouseleave', handleLeave);
+    };
+  }, [diagram, publish, throttle]);
+
+  const publishSelection = useCallback((nodeKeys: Array<go.Key>, linkKeys: Array<go.Key>) => {
+    state.current = { ...state.current, nodeKeys, linkKeys };
+    publish();
+  }, [publish]);
+
+  return { peers, publishSelection };
+}
@@ -0,0 +1,83 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { rollBackTransaction, userTransaction } from '../model/dataEdits';
+import { errorsFromLink, newErrors, RuleViolation, ValidationRule, validateRules } from '../model/rules';
+import { DiagramContents, KeyedData } from './useGoModelState';
+
+export interface RuleRejection {
+  transaction: string;  // the name of the transaction that was undone
+  errors: Array<RuleViolation>;
+}
+
+export interface RuleEnforcement {
+  rejection: RuleRejection | null;  // the last change rejected, until dismissed
+  clearRejection: () => void;
+}
+
+function modelContents(model: go.GraphLinksModel): DiagramContents {
+  return {
+    nodeDataArray: model.nodeDataArray as Array<KeyedData>,
+    linkDataArray: model.linkDataArray as Array<KeyedData>,
+    modelData: model.modelData
+  };
+}
+
+/**
+ * While enabled, refuse changes made in the diagram that would break a rule with severity 'error'.
+ * New and reconnected links are refused before they are made, by the linking tools' linkValidation.
+ * Any other transaction bringing in new errors, or a redo of one, is rolled back by undoing it as soon as it finishes.
+ * Errors that were there already, and changes from collaborators, are left alone.
+ * @param diagram the diagram to guard, once it exists
+ * @param rules the rules to enforce
+ * @param enabled whether to enforce them
+ */
+export function useRuleEnforcement(diagram: go.Diagram | null, rules: Array<ValidationRule>, enabled: boolean): RuleEnforcement {
+  const [rejection, setRejection] = useState<RuleRejection | null>(null);
+
+  useEffect(() => {
+    if (diagram === null || !enabled) return;
+    const model = () => diagram.model as go.GraphLinksModel;
+    let baseline = validateRules(modelContents(model()), rules);
+
+    const linkValidation = (fromNode: go.Node, fromPort: go.GraphObject, toNode: go.Node, toPort: go.GraphObject, link: go.Link) => {
+      if (!fromNode || !toNode) return true;
+      const ld = {
+        from: fromNode.key,
+        to: toNode.key,
+        fromPort: fromPort ? fromPort.portId : '',
+        toPort: toPort ? toPort.portId : ''
+      };
+      return errorsFromLink(modelContents(model()), rules, ld, link ? link.key : undefined).length === 0;
+    };
+    const tools = diagram.toolManager;
+    tools.linkingTool.linkValidation = linkValidation;
+    tools.relinkingTool.linkValidation = linkValidation;
+
+    const listener = (e: go.ChangedEvent) => {
+      if (!e.isTransactionFinished) return;
+      // merges from React state, such as an opened file, may well break rules already and aren't undone
+      const txn = userTransaction(diagram, e);
+      const after = validateRules(modelContents(model()), rules);
+      const errors = newErrors(baseline, after);
+      if (txn === null || errors.length === 0) {
+        baseline = after;
+        return;
+      }
+      setRejection({ transaction: txn.name, errors });
+      rollBackTransaction(diagram, txn);
+    };
+    diagram.addModelChangedListener(listener);
+
+    return () => {
+      diagram.removeModelChangedListener(listener);
+      tools.linkingTool.linkValidation = null;
+      tools.relinkingTool.linkValidation = null;
+    };
+  }, [diagram, rules, enabled]);
+
+  const clearRejection = useCallback(() => setRejection(null), []);
+
+  return { rejection, clearRejection };
+}
@@ -0,0 +1,30 @@
+import * as go from 'gojs';
+
+import { useEffect } from 'react';
+
+import { rollBackTransaction, userTransaction } from '../model/dataEdits';
+import { DataSchema, validateIncrementalData } from '../model/schema';
+
+/**
+ * Roll back any transaction made in the diagram that leaves node or link data breaking its schema,
+ * by undoing it as soon as it finishes. useGoModelState keeps that data out of React state and reports it,
+ * so undoing the transaction brings the GoJS model back in line with state.
+ * Merges from React state are checked before they are made, and changes from collaborators are left alone.
+ * @param diagram the diagram to guard, once it exists
+ * @param nodeSchema the schema for node data, if any
+ * @param linkSchema the schema for link data, if any
+ */
+export function useSchemaEnforcement(diagram: go.Diagram | null, nodeSchema?: DataSchema, linkSchema?: DataSchema): void {
+  useEffect(() => {
+    if (diagram === null || (!nodeSchema && !linkSchema)) return;
+    const listener = (e: go.ChangedEvent) => {
+      const txn = userTransaction(diagram, e);
+      if (txn === null) return;
+      const changes = diagram.model.toIncrementalData(e);
+      if (changes === null || validateIncrementalData(changes, nodeSchema, linkSchema).length === 0) return;
+      rollBackTransaction(diagram, txn);
+    };
+    diagram.addModelChangedListener(listener);
+    return () => diagram.removeModelChangedListener(listener);
+  }, [diagram, nodeSchema, linkSchema]);
+}
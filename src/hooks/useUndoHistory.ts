@@ -0,0 +1,77 @@
+import * as go from 'gojs';
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface UndoHistoryEntry {
+  name: string;  // the transaction name, such as 'Move' or 'TextEditing'
+  isUndone: boolean;  // whether it has been undone and could be redone
+}
+
+export interface UndoHistory {
+  entries: Array<UndoHistoryEntry>;
+  index: number;  // of the last entry not undone, or -1 if everything is undone
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+}
+
+interface HistoryState {
+  entries: Array<UndoHistoryEntry>;
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const emptyHistory: HistoryState = { entries: [], index: -1, canUndo: false, canRedo: false };
+
+function readHistory(undoManager: go.UndoManager): HistoryState {
+  const index = undoManager.historyIndex;
+  return {
+    entries: undoManager.history.toArray().map((t: go.Transaction, i: number) => ({ name: t.name, isUndone: i > index })),
+    index,
+    canUndo: undoManager.canUndo(),
+    canRedo: undoManager.canRedo()
+  };
+}
+
+/**
+ * Mirror a diagram's UndoManager history in React state, so it can be shown and navigated outside the canvas.
+ * The history is read again whenever a transaction finishes, is undone or is redone.
+ * Remote changes from collaborators skip the UndoManager, so only this user's own transactions are listed.
+ * @param diagram the diagram whose history to follow, once it exists
+ */
+export function useUndoHistory(diagram: go.Diagram | null): UndoHistory {
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+
+  useEffect(() => {
+    if (diagram === null) return;
+    setHistory(readHistory(diagram.undoManager));
+    const listener = (e: go.ChangedEvent) => {
+      if (e.isTransactionFinished) setHistory(readHistory(diagram.undoManager));
+    };
+    diagram.addModelChangedListener(listener);
+    return () => diagram.removeModelChangedListener(listener);
+  }, [diagram]);
+
+  const undo = useCallback(() => {
+    if (diagram !== null) diagram.commandHandler.undo();
+  }, [diagram]);
+
+  const redo = useCallback(() => {
+    if (diagram !== null) diagram.commandHandler.redo();
+  }, [diagram]);
+
+  /**
+   * Undo or redo until the given entry is the last one in effect, or -1 to undo everything.
+   */
+  const jumpTo = useCallback((index: number) => {
+    if (diagram === null) return;
+    const um = diagram.undoManager;
+    while (um.historyIndex > index && um.canUndo()) um.undo();
+    while (um.historyIndex < index && um.canRedo()) um.redo();
+  }, [diagram]);
+
+  return { ...history, undo, redo, jumpTo };
+}
@@ -1,5 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom';
 import { App } from './App';
+import { benchmarkGuidedDragging } from './benchmarks/guidedDraggingBenchmark';
+
+declare global {
+  interface Window {
+    benchmarkGuidedDragging?: typeof benchmarkGuidedDragging;  // only in development builds
+  }
+}
 
 ReactDOM.render(<App />, document.getElementById('root'));
+
+if (process.env.NODE_ENV === 'development') {
+  window.benchmarkGuidedDragging = benchmarkGuidedDragging;
+}
@@ -0,0 +1,99 @@
+import * as go from 'gojs';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/**
+ * What parts are aligned to: the combined bounds of all of them, or the part selected first, which stays put.
+ */
+export type AlignReference = 'selection' | 'first';
+
+/**
+ * The parts of a collection that can be aligned: movable nodes and groups, leaving out links, which follow their nodes,
+ * and members of groups that are in the collection too, which move with their group.
+ */
+export function alignableParts(parts: go.Set<go.Part>): Array<go.Part> {
+  const set = new go.Set<go.Part>();
+  parts.each((p: go.Part) => {
+    if (p instanceof go.Node && p.canMove()) set.add(p);
+  });
+  return set.toArray().filter((p: go.Part) => {
+    for (let g = p.containingGroup; g !== null; g = g.containingGroup) {
+      if (set.has(g)) return false;
+    }
+    return true;
+  });
+}
+
+// parts are lined up by their location objects, as the GuidedDraggingTool does, so a node's label doesn't throw it off
+function boundsOf(p: go.Part): go.Rect {
+  return p.locationObject.getDocumentBounds();
+}
+
+function unionBounds(parts: Array<go.Part>): go.Rect {
+  const r = boundsOf(parts[0]).copy();
+  parts.forEach((p: go.Part) => r.unionRect(boundsOf(p)));
+  return r;
+}
+
+// move a part, with any members, by an offset
+function moveBy(p: go.Part, dx: number, dy: number): void {
+  if (dx === 0 && dy === 0) return;
+  p.move(new go.Point(p.position.x + dx, p.position.y + dy));
+}
+
+/**
+ * Line up parts along one edge, or the center line, of their combined bounds or of the first part.
+ * Call this within a transaction; the new locations reach the model through the nodes' loc bindings.
+ * @param parts the parts to align, as from alignableParts, in selection order
+ * @param edge the edge or center line to line them up on
+ * @param reference what to align them to, by default their combined bounds
+ */
+export function alignParts(parts: Array<go.Part>, edge: AlignEdge, reference: AlignReference = 'selection'): void {
+  if (parts.length < 2) return;
+  const target = reference === 'first' ? boundsOf(parts[0]).copy() : unionBounds(parts);
+  parts.forEach((p: go.Part) => {
+    const b = boundsOf(p);
+    switch (edge) {
+      case 'left': moveBy(p, target.x - b.x, 0); break;
+      case 'center': moveBy(p, target.centerX - b.centerX, 0); break;
+      case 'right': moveBy(p, target.right - b.right, 0); break;
+      case 'top': moveBy(p, 0, target.y - b.y); break;
+      case 'middle': moveBy(p, 0, target.centerY - b.centerY); break;
+      case 'bottom': moveBy(p, 0, target.bottom - b.bottom); break;
+      default: break;
+    }
+  });
+}
+
+/**
+ * Space parts evenly along an axis, leaving equal gaps between their bounds, even if they overlap, which gives negative gaps.
+ * The parts keep the order of their centers across the span of all their bounds: the first starts at the lowest start
+ * of any of them, and the last ends at the highest end. Call this within a transaction.
+ */
+export function distributeParts(parts: Array<go.Part>, axis: DistributeAxis): void {
+  if (parts.length < 3) return;
+  const horizontal = axis === 'horizontal';
+  const start = (r: go.Rect) => horizontal ? r.x : r.y;
+  const size = (r: go.Rect) => horizontal ? r.width : r.height;
+  const bounds = new Map<go.Part, go.Rect>();
+  parts.forEach((p: go.Part) => bounds.set(p, boundsOf(p).copy()));
+  const center = (p: go.Part) => start(bounds.get(p) as go.Rect) + size(bounds.get(p) as go.Rect) / 2;
+  const sorted = [...parts].sort((a: go.Part, b: go.Part) => center(a) - center(b));
+  // with overlapping parts of different sizes, the first and last by center need not be the outermost
+  let min = Infinity;
+  let max = -Infinity;
+  bounds.forEach((r: go.Rect) => {
+    min = Math.min(min, start(r));
+    max = Math.max(max, start(r) + size(r));
+  });
+  const total = sorted.reduce((sum: number, p: go.Part) => sum + size(bounds.get(p) as go.Rect), 0);
+  const gap = (max - min - total) / (sorted.length - 1);
+  let pos = min;
+  sorted.forEach((p: go.Part) => {
+    const b = bounds.get(p) as go.Rect;
+    const offset = pos - start(b);
+    moveBy(p, horizontal ? offset : 0, horizontal ? 0 : offset);
+    pos += size(b) + gap;
+  });
+}
@@ -0,0 +1,51 @@
+import * as go from 'gojs';
+
+import { SelectedData } from '../hooks/useGoModelState';
+
+/**
+ * Set properties of some nodes and links directly in the GoJS model, in one transaction with the given name,
+ * so the edit is listed in the undo history and undone as a whole. React state follows through onModelChange.
+ * A property set to undefined is removed. Data that is no longer in the model is skipped.
+ * @param diagram the diagram whose model to change
+ * @param targets the nodes and links to change, as selected in React state
+ * @param changes the properties to set on each of them
+ * @param name the transaction name
+ */
+export function commitDataChanges(diagram: go.Diagram, targets: Array<SelectedData>, changes: go.ObjectData, name: string): void {
+  const model = diagram.model as go.GraphLinksModel;
+  model.commit((m: go.Model) => {
+    const glm = m as go.GraphLinksModel;
+    targets.forEach((sd: SelectedData) => {
+      const data = sd.kind === 'node' ? glm.findNodeDataForKey(sd.data.key) : glm.findLinkDataForKey(sd.data.key);
+      if (data === null) return;
+      Object.keys(changes).forEach((prop: string) => glm.set(data, prop, changes[prop]));
+    });
+  }, name);
+}
+
+// the transactions in which gojs-react merges data from React state, such as an opened file,
+// which is checked before it gets there and shouldn't be undone
+const mergeTransactions = new Set<string>(['gojs-react init merge', 'update data']);
+
+/**
+ * The transaction the user has just made in the diagram, if a ChangedEvent finishes one:
+ * a transaction or redo that is next to be undone, as opposed to an undo, a merge from React state
+ * or a change that skipped the UndoManager, such as one from a collaborator.
+ * @return the transaction, or null if the event doesn't finish one the user made
+ */
+export function userTransaction(diagram: go.Diagram, e: go.ChangedEvent): go.Transaction | null {
+  if (!e.isTransactionFinished || e.propertyName === 'FinishedUndo') return null;
+  const txn = e.object as go.Transaction | null;
+  if (txn === null || mergeTransactions.has(txn.name) || diagram.undoManager.transactionToUndo !== txn) return null;
+  return txn;
+}
+
+/**
+ * Undo a transaction once the tool that made it has finished with it, if it is still the one to undo.
+ */
+export function rollBackTransaction(diagram: go.Diagram, txn: go.Transaction): void {
+  const um = diagram.undoManager;
+  setTimeout(() => {
+    if (um.transactionToUndo === txn && um.canUndo()) um.undo();
+  }, 0);
+}
@@ -0,0 +1,78 @@
+import * as go from 'gojs';
+
+import { ValidationRule } from './rules';
+import { DataSchema } from './schema';
+
+export type NodeData = {
+  key: go.Key;
+  text: string;
+  color: string;
+  loc?: string;
+  category?: string;
+  description?: string;
+  isGroup?: boolean;
+  group?: go.Key;  // the key of the containing group, if any
+  expanded?: boolean;  // whether a group shows its members
+};
+
+export type LinkData = {
+  key: go.Key;
+  from: go.Key;
+  to: go.Key;
+  category?: string;
+  description?: string;
+  text?: string;  // a label, as read from DOT and Mermaid files
+};
+
+/**
+ * Fields added from the inspector that the schemas don't list are named with this prefix,
+ * so that a typo such as 'colr' is still caught.
+ */
+export const customFieldPrefix = 'x-';
+
+export const nodeSchema: DataSchema = {
+  properties: {
+    key: { type: 'key', required: true },
+    text: { type: 'string', required: true },
+    color: { type: 'string', required: true },
+    loc: { type: 'point' },
+    category: { type: 'string' },
+    description: { type: 'string' },
+    isGroup: { type: 'boolean' },
+    group: { type: 'key' },
+    expanded: { type: 'boolean' }
+  },
+  customPrefix: customFieldPrefix
+};
+
+export const linkSchema: DataSchema = {
+  properties: {
+    key: { type: 'key', required: true },
+    from: { type: 'key', required: true },
+    to: { type: 'key', required: true },
+    category: { type: 'string' },
+    description: { type: 'string' },
+    text: { type: 'string' }
+  },
+  customPrefix: customFieldPrefix
+};
+
+/**
+ * Rules about how the diagram's nodes and links fit together, beyond what the schemas say about each one.
+ * A new decision node has no outgoing links yet, so that rule is only a warning.
+ */
+export const diagramRules: Array<ValidationRule> = [
+  { id: 'no-self-links', type: 'noSelfLinks', message: 'links a node to itself' },
+  { id: 'no-dangling-links', type: 'noDanglingLinks', message: 'is missing the node at one end' },
+  { id: 'no-duplicate-links', type: 'noDuplicateLinks', message: 'duplicates another link' },
+  { id: 'text-required', type: 'required', property: 'text', message: 'has no text' },
+  {
+    id: 'decision-branches',
+    type: 'minLinks',
+    direction: 'out',
+    count: 2,
+    category: 'decision',
+    severity: 'warning',
+    message: 'is a decision with fewer than two outgoing links'
+  }
+];
@@ -0,0 +1,91 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData } from '../hooks/useGoModelState';
+import { findCycles, linksAmong, reachable, shortestPath, topologicalOrder } from './graphAnalysis';
+import { sampleDiagram } from './sampleDiagram';
+
+type Link = KeyedData & { from: go.Key; to: go.Key };
+
+// a diagram of bare nodes and of links given as [key, from, to]
+function graph(nodes: Array<go.Key>, links: Array<[go.Key, go.Key, go.Key]>): DiagramContents<KeyedData, Link> {
+  return {
+    nodeDataArray: nodes.map((key: go.Key) => ({ key })),
+    linkDataArray: links.map(([key, from, to]) => ({ key, from, to })),
+    modelData: {}
+  };
+}
+
+const sorted = (keys: Array<go.Key>) => [...keys].sort();
+
+// the sample: 0 -> 1, 0 -> 2, 1 -> 1, 2 -> 3, 3 -> 0
+describe('findCycles', () => {
+  it("finds the sample's self-loop and its 0 -> 2 -> 3 -> 0 cycle", () => {
+    const cycles = findCycles(sampleDiagram);
+    expect(cycles).toHaveLength(2);
+    expect(cycles).toContainEqual({ nodes: [1], links: [-3] });
+    expect(cycles).toContainEqual({ nodes: [0, 2, 3], links: [-2, -4, -5] });
+  });
+
+  it('counts parallel links once and stops at the limit', () => {
+    const k4: Array<[go.Key, go.Key, go.Key]> = [];
+    [1, 2, 3, 4].forEach((a: number) => [1, 2, 3, 4].forEach((b: number) => {
+      if (a !== b) k4.push([`${a}${b}`, a, b]);
+    }));
+    expect(findCycles(graph([1, 2, 3, 4], k4))).toHaveLength(20);
+    expect(findCycles(graph([1, 2, 3, 4], k4), 5)).toHaveLength(5);
+    expect(findCycles(graph(['a', 'b'], [[1, 'a', 'b'], [2, 'a', 'b'], [3, 'b', 'a']]))).toHaveLength(1);
+  });
+
+  it('finds none in an acyclic diagram', () => {
+    expect(findCycles(graph(['a', 'b', 'c'], [[1, 'a', 'b'], [2, 'a', 'c'], [3, 'b', 'c']]))).toEqual([]);
+  });
+});
+
+describe('shortestPath', () => {
+  it('follows links in their direction with as few as possible', () => {
+    expect(shortestPath(sampleDiagram, 0, 3)).toEqual({ nodes: [0, 2, 3], links: [-2, -4] });
+    expect(shortestPath(sampleDiagram, 3, 1)).toEqual({ nodes: [3, 0, 1], links: [-5, -1] });
+  });
+
+  it('is just the node from a node to itself, and null when there is no path', () => {
+    expect(shortestPath(sampleDiagram, 2, 2)).toEqual({ nodes: [2], links: [] });
+    expect(shortestPath(sampleDiagram, 1, 0)).toBeNull();
+  });
+});
+
+describe('reachable', () => {
+  it('finds what is downstream, including a start a cycle leads back to', () => {
+    expect(reachable(sampleDiagram, [1], 'downstream')).toEqual({ nodes: [1], links: [-3] });
+    const fromTwo = reachable(sampleDiagram, [2], 'downstream');
+    expect(sorted(fromTwo.nodes)).toEqual([0, 1, 2, 3]);
+    expect(sorted(fromTwo.links)).toEqual([-1, -2, -3, -4, -5]);
+  });
+
+  it('finds what is upstream, following each link once', () => {
+    const chain = graph(['a', 'b', 'c', 'd'], [[1, 'a', 'b'], [2, 'b', 'c'], [3, 'a', 'c'], [4, 'd', 'd']]);
+    expect(reachable(chain, ['c'], 'upstream')).toEqual({ nodes: ['b', 'a'], links: [2, 3, 1] });
+    expect(reachable(chain, ['a'], 'upstream')).toEqual({ nodes: [], links: [] });
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('orders dependencies first and sets apart nodes on or after a cycle', () => {
+    const data = graph(['e', 'd', 'c', 'b', 'a'], [[1, 'a', 'b'], [2, 'a', 'c'], [3, 'c', 'd'], [4, 'd', 'e'], [5, 'e', 'd']]);
+    expect(topologicalOrder(data)).toEqual({ order: ['a', 'b', 'c'], cyclic: ['e', 'd'] });
+  });
+
+  it('puts nodes without dependencies first, in model order', () => {
+    const data = graph([3, 2, 1], [[1, 2, 1]]);
+    expect(topologicalOrder(data)).toEqual({ order: [3, 2, 1], cyclic: [] });
+  });
+
+  it("can't order any of the sample, where everything is on or after a cycle", () => {
+    expect(topologicalOrder(sampleDiagram)).toEqual({ order: [], cyclic: [0, 1, 2, 3] });
+  });
+});
+
+describe('linksAmong', () => {
+  it('lists the links with both ends in the set', () => {
+    expect(linksAmong(sampleDiagram, [0, 2, 3])).toEqual([-2, -4, -5]);
+  });
+});
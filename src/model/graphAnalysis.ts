@@ -0,0 +1,281 @@
+import * as go from 'gojs';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+
+/**
+ * Some of a diagram's nodes and links, by key. For paths and cycles the nodes are in order,
+ * and each link goes from one node to the next, the last link of a cycle returning to the first node.
+ */
+export interface Subgraph {
+  nodes: Array<go.Key>;
+  links: Array<go.Key>;
+}
+
+export type Direction = 'downstream' | 'upstream';
+
+export interface TopologicalOrder {
+  order: Array<go.Key>;  // every node that isn't on a cycle or downstream of one, dependencies first
+  cyclic: Array<go.Key>;  // the rest, in model order, which can't be ordered
+}
+
+interface Edge {
+  node: go.Key;  // the node at the other end
+  link: go.Key;
+}
+
+interface Graph {
+  nodes: Array<go.Key>;  // in model order
+  out: Map<go.Key, Array<Edge>>;
+  in: Map<go.Key, Array<Edge>>;
+}
+
+/**
+ * Index the links by the nodes at each end. Links to or from nodes that aren't in the diagram are left out.
+ * Group membership isn't a dependency, so groups are only connected by the links drawn to and from them.
+ */
+function buildGraph(data: DiagramContents): Graph {
+  const graph: Graph = { nodes: [], out: new Map(), in: new Map() };
+  data.nodeDataArray.forEach((nd: go.ObjectData) => {
+    if (graph.out.has(nd.key)) return;
+    graph.nodes.push(nd.key);
+    graph.out.set(nd.key, []);
+    graph.in.set(nd.key, []);
+  });
+  data.linkDataArray.forEach((ld: go.ObjectData) => {
+    const outs = graph.out.get(ld.from);
+    const ins = graph.in.get(ld.to);
+    if (outs === undefined || ins === undefined) return;
+    outs.push({ node: ld.to, link: ld.key });
+    ins.push({ node: ld.from, link: ld.key });
+  });
+  return graph;
+}
+
+function edgesOf(graph: Graph, direction: Direction): Map<go.Key, Array<Edge>> {
+  return direction === 'downstream' ? graph.out : graph.in;
+}
+
+/**
+ * Find a path following the links' direction with as few links as possible, by breadth-first search.
+ * @return the path, which for a node to itself is just that node, or null if there is none
+ */
+export function shortestPath(data: DiagramContents, from: go.Key, to: go.Key): Subgraph | null {
+  const graph = buildGraph(data);
+  if (!graph.out.has(from) || !graph.out.has(to)) return null;
+  const cameBy = new Map<go.Key, Edge | null>([[from, null]]);
+  const queue: Array<go.Key> = [from];
+  for (let i = 0; i < queue.length && !cameBy.has(to); i++) {
+    const node = queue[i];
+    (graph.out.get(node) as Array<Edge>).forEach((e: Edge) => {
+      if (cameBy.has(e.node)) return;
+      cameBy.set(e.node, { node, link: e.link });
+      queue.push(e.node);
+    });
+  }
+  if (!cameBy.has(to)) return null;
+  const path: Subgraph = { nodes: [to], links: [] };
+  for (let step = cameBy.get(to); step; step = cameBy.get(step.node)) {
+    path.nodes.unshift(step.node);
+    path.links.unshift(step.link);
+  }
+  return path;
+}
+
+/**
+ * Everything reachable from the given nodes by following links forwards (downstream)
+ * or backwards (upstream), not counting the starting nodes themselves unless a cycle leads back to them.
+ * @return the nodes in breadth-first order, and the links followed
+ */
+export function reachable(data: DiagramContents, starts: Array<go.Key>, direction: Direction): Subgraph {
+  const graph = buildGraph(data);
+  const edges = edgesOf(graph, direction);
+  const seen = new Set<go.Key>();  // the nodes reached
+  const result: Subgraph = { nodes: [], links: [] };
+  const queue = starts.filter((key: go.Key) => edges.has(key));
+  const queued = new Set<go.Key>(queue);
+  for (let i = 0; i < queue.length; i++) {
+    (edges.get(queue[i]) as Array<Edge>).forEach((e: Edge) => {
+      result.links.push(e.link);
+      if (!seen.has(e.node)) {
+        seen.add(e.node);
+        result.nodes.push(e.node);
+      }
+      if (!queued.has(e.node)) {
+        queued.add(e.node);
+        queue.push(e.node);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * The strongly connected components among some of the graph's nodes, by Tarjan's algorithm,
+ * done iteratively so that long chains don't overflow the stack. The nodes of each component can all reach each other.
+ * @param include which nodes to consider, ignoring links to and from the others
+ */
+function stronglyConnected(graph: Graph, include: (key: go.Key) => boolean): Array<Array<go.Key>> {
+  const index = new Map<go.Key, number>();
+  const low = new Map<go.Key, number>();
+  const onStack = new Set<go.Key>();
+  const stack: Array<go.Key> = [];
+  const components: Array<Array<go.Key>> = [];
+  let counter = 0;
+  const visit = (key: go.Key) => {
+    index.set(key, counter);
+    low.set(key, counter++);
+    stack.push(key);
+    onStack.add(key);
+  };
+  graph.nodes.forEach((root: go.Key) => {
+    if (index.has(root) || !include(root)) return;
+    const work: Array<{ node: go.Key; next: number }> = [{ node: root, next: 0 }];
+    visit(root);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = graph.out.get(frame.node) as Array<Edge>;
+      if (frame.next < edges.length) {
+        const w = edges[frame.next++].node;
+        if (!include(w)) continue;
+        if (!index.has(w)) {
+          visit(w);
+          work.push({ node: w, next: 0 });
+        } else if (onStack.has(w)) {
+          low.set(frame.node, Math.min(low.get(frame.node) as number, index.get(w) as number));
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        low.set(parent, Math.min(low.get(parent) as number, low.get(frame.node) as number));
+      }
+      if (low.get(frame.node) === index.get(frame.node)) {
+        const component: Array<go.Key> = [];
+        let w: go.Key;
+        do {
+          w = stack.pop() as go.Key;
+          onStack.delete(w);
+          component.push(w);
+        } while (w !== frame.node);
+        components.push(component);
+      }
+    }
+  });
+  return components;
+}
+
+/**
+ * List the diagram's cycles, including self-loops, by Johnson's algorithm: each distinct circuit of nodes once,
+ * starting from its node that comes first in the model. Parallel links between the same nodes don't count
+ * as further cycles. A densely linked diagram can have a great many cycles, so only the first few are found.
+ * @param limit how many cycles to find at most
+ */
+export function findCycles(data: DiagramContents, limit: number = 100): Array<Subgraph> {
+  const graph = buildGraph(data);
+  const order = new Map<go.Key, number>();
+  graph.nodes.forEach((key: go.Key, i: number) => order.set(key, i));
+  // the first link between two nodes stands for any parallel ones
+  const out = new Map<go.Key, Array<Edge>>();
+  graph.nodes.forEach((key: go.Key) => {
+    const targets = new Set<go.Key>();
+    out.set(key, (graph.out.get(key) as Array<Edge>).filter((e: Edge) => !targets.has(e.node) && !!targets.add(e.node)));
+  });
+
+  const cycles: Array<Subgraph> = [];
+  let s = 0;
+  while (s < graph.nodes.length && cycles.length < limit) {
+    // the cycles through the earliest node that is on any cycle among the nodes not yet started from
+    const from = s;
+    const components = stronglyConnected(graph, (key: go.Key) => (order.get(key) as number) >= from)
+      .filter((c: Array<go.Key>) => c.length > 1 || (out.get(c[0]) as Array<Edge>).some((e: Edge) => e.node === c[0]));
+    if (components.length === 0) break;
+    const firsts = components.map((c: Array<go.Key>) => c.reduce((min: number, key: go.Key) => Math.min(min, order.get(key) as number), Infinity));
+    s = firsts.reduce((min: number, first: number) => Math.min(min, first), Infinity);
+    const component = new Set<go.Key>(components[firsts.indexOf(s)]);
+    const start = graph.nodes[s];
+
+    const blocked = new Set<go.Key>();
+    const blockers = new Map<go.Key, Set<go.Key>>();  // unblock the values when the key is unblocked
+    const unblock = (key: go.Key) => {
+      const todo = [key];
+      while (todo.length > 0) {
+        const u = todo.pop() as go.Key;
+        blocked.delete(u);
+        const waiting = blockers.get(u);
+        if (waiting === undefined) continue;
+        blockers.delete(u);
+        waiting.forEach((w: go.Key) => {
+          if (blocked.has(w)) todo.push(w);
+        });
+      }
+    };
+    const edgesFrom = (key: go.Key) => (out.get(key) as Array<Edge>).filter((e: Edge) => component.has(e.node));
+    const path: Subgraph = { nodes: [start], links: [] };
+    const work: Array<{ edges: Array<Edge>; next: number; found: boolean }> = [{ edges: edgesFrom(start), next: 0, found: false }];
+    blocked.add(start);
+    while (work.length > 0 && cycles.length < limit) {
+      const frame = work[work.length - 1];
+      if (frame.next < frame.edges.length) {
+        const e = frame.edges[frame.next++];
+        if (e.node === start) {
+          cycles.push({ nodes: [...path.nodes], links: [...path.links, e.link] });
+          frame.found = true;
+        } else if (!blocked.has(e.node)) {
+          path.nodes.push(e.node);
+          path.links.push(e.link);
+          blocked.add(e.node);
+          work.push({ edges: edgesFrom(e.node), next: 0, found: false });
+        }
+        continue;
+      }
+      // done with this node: free it if it led back to the start, otherwise only once a node it leads to is freed
+      const node = path.nodes.pop() as go.Key;
+      path.links.pop();
+      work.pop();
+      if (frame.found) {
+        unblock(node);
+      } else {
+        frame.edges.forEach((e: Edge) => {
+          const waiting = blockers.get(e.node) || new Set<go.Key>();
+          waiting.add(node);
+          blockers.set(e.node, waiting);
+        });
+      }
+      if (work.length > 0 && frame.found) work[work.length - 1].found = true;
+    }
+    s++;
+  }
+  return cycles;
+}
+
+/**
+ * Order the nodes so that every link goes from an earlier node to a later one, by Kahn's algorithm.
+ * Nodes without links into them come first, in model order, and the others follow as their last dependency
+ * is placed. Nodes on a cycle, or downstream of one, can't be placed and are reported separately.
+ */
+export function topologicalOrder(data: DiagramContents): TopologicalOrder {
+  const graph = buildGraph(data);
+  const remaining = new Map<go.Key, number>();
+  graph.nodes.forEach((key: go.Key) => remaining.set(key, (graph.in.get(key) as Array<Edge>).length));
+  const order: Array<go.Key> = graph.nodes.filter((key: go.Key) => remaining.get(key) === 0);
+  for (let i = 0; i < order.length; i++) {
+    (graph.out.get(order[i]) as Array<Edge>).forEach((e: Edge) => {
+      const count = (remaining.get(e.node) as number) - 1;
+      remaining.set(e.node, count);
+      if (count === 0) order.push(e.node);
+    });
+  }
+  const placed = new Set<go.Key>(order);
+  return { order, cyclic: graph.nodes.filter((key: go.Key) => !placed.has(key)) };
+}
+
+/**
+ * The links among a set of nodes, for showing a set of nodes such as a topological order as a subgraph.
+ */
+export function linksAmong(data: DiagramContents, nodes: Array<go.Key>): Array<go.Key> {
+  const keys = new Set<go.Key>(nodes);
+  return data.linkDataArray
+    .filter((ld: go.ObjectData) => keys.has(ld.from) && keys.has(ld.to))
+    .map((ld: go.ObjectData) => ld.key);
+}
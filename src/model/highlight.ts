@@ -0,0 +1,35 @@
+import * as go from 'gojs';
+
+// the opacity of the parts left out of a highlight
+const dimmedOpacity = 0.25;
+
+/**
+ * Highlight some parts and dim all the others, or with null, undo that.
+ * This only changes how parts look, so it skips the UndoManager and isn't seen by the model.
+ */
+export function highlightParts(diagram: go.Diagram, parts: go.Set<go.Part> | null): void {
+  diagram.commit((d: go.Diagram) => {
+    d.highlightCollection(parts || new go.Set<go.Part>());
+    const dim = (part: go.Part) => {
+      part.opacity = parts === null || parts.has(part) ? 1 : dimmedOpacity;
+    };
+    d.nodes.each(dim);
+    d.links.each(dim);
+  }, null);
+}
+
+/**
+ * Highlight the nodes and links with the given keys, and dim all the others.
+ */
+export function highlightKeys(diagram: go.Diagram, nodeKeys: Array<go.Key>, linkKeys: Array<go.Key>): void {
+  const parts = new go.Set<go.Part>();
+  nodeKeys.forEach((key: go.Key) => {
+    const node = diagram.findNodeForKey(key);
+    if (node !== null) parts.add(node);
+  });
+  linkKeys.forEach((key: go.Key) => {
+    const link = diagram.findLinkForKey(key);
+    if (link !== null) parts.add(link);
+  });
+  highlightParts(diagram, parts);
+}
@@ -0,0 +1,83 @@
+import * as go from 'gojs';
+
+/**
+ * Makes a new key that isn't taken yet. Node keys and link keys are separate,
+ * so a generator is only ever asked about one kind of key.
+ */
+export type KeyGenerator = (isTaken: (key: go.Key) => boolean) => go.Key;
+
+/**
+ * How a model makes keys for new nodes and links, such as those drawn, pasted or dropped from a palette.
+ */
+export interface KeyStrategy {
+  nodeKey: KeyGenerator;
+  linkKey: KeyGenerator;
+}
+
+/**
+ * The smallest unused integer, counting up from start.
+ */
+export function sequentialKeys(start: number = 1): KeyGenerator {
+  return (isTaken) => {
+    let k = start;
+    while (isTaken(k)) k++;
+    return k;
+  };
+}
+
+/**
+ * The prefix followed by the smallest unused number, such as 'node-3'.
+ */
+export function prefixedKeys(prefix: string): KeyGenerator {
+  return (isTaken) => {
+    let n = 1;
+    while (isTaken(prefix + n)) n++;
+    return prefix + n;
+  };
+}
+
+/**
+ * A random (version 4) UUID, formatted as usual.
+ */
+export function makeUuid(): string {
+  const bytes = new Uint8Array(16);
+  window.crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;  // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;  // RFC 4122 variant
+  const hex = Array.from(bytes, (b: number) => (b + 0x100).toString(16).substring(1)).join('');
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+}
+
+/**
+ * Random UUIDs, which don't depend on what is already in the model, so keys made by
+ * collaborators at the same time, or by a backend, don't collide.
+ */
+export function uuidKeys(): KeyGenerator {
+  return (isTaken) => {
+    let k = makeUuid();
+    while (isTaken(k)) k = makeUuid();
+    return k;
+  };
+}
+
+export const sequentialKeyStrategy: KeyStrategy = { nodeKey: sequentialKeys(), linkKey: sequentialKeys() };
+
+export const uuidKeyStrategy: KeyStrategy = { nodeKey: uuidKeys(), linkKey: uuidKeys() };
+
+/**
+ * Have a model make its new keys with a key strategy. Copied data, like that dropped from a palette
+ * or pasted, gets new keys too, rather than keeping the key it had wherever it was copied from.
+ */
+export function applyKeyStrategy(model: go.GraphLinksModel, strategy: KeyStrategy): void {
+  model.copiesKey = false;
+  model.makeUniqueKeyFunction = (m: go.Model, data: go.ObjectData) => {
+    const k = strategy.nodeKey((key: go.Key) => m.findNodeDataForKey(key) !== null);
+    data.key = k;
+    return k;
+  };
+  model.makeUniqueLinkKeyFunction = (m: go.GraphLinksModel, data: go.ObjectData) => {
+    const k = strategy.linkKey((key: go.Key) => m.findLinkDataForKey(key) !== null);
+    data.key = k;
+    return k;
+  };
+}
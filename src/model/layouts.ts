@@ -0,0 +1,145 @@
+import * as go from 'gojs';
+
+export type LayoutKind = 'force' | 'layered' | 'tree' | 'grid' | 'circular';
+
+/**
+ * A numeric setting of a layout, shown as a number field, or as a dropdown if it has options.
+ */
+export interface LayoutParameter {
+  name: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  options?: Array<number>;
+}
+
+export interface LayoutKindInfo {
+  label: string;
+  parameters: Array<LayoutParameter>;
+}
+
+/**
+ * The layout chosen for a diagram, kept in modelData.layout so that it is saved, shared and undone
+ * along with everything else.
+ */
+export interface LayoutSettings {
+  kind: LayoutKind;
+  params: { [name: string]: number };
+}
+
+const directions = [0, 90, 180, 270];
+
+export const layoutKinds: { [kind in LayoutKind]: LayoutKindInfo } = {
+  force: {
+    label: 'Force-directed',
+    parameters: [
+      { name: 'maxIterations', label: 'Iterations', defaultValue: 100, min: 1 },
+      { name: 'defaultSpringLength', label: 'Spring length', defaultValue: 50, min: 0 },
+      { name: 'defaultElectricalCharge', label: 'Charge', defaultValue: 150, min: 0 }
+    ]
+  },
+  layered: {
+    label: 'Layered digraph',
+    parameters: [
+      { name: 'direction', label: 'Direction', defaultValue: 0, options: directions },
+      { name: 'layerSpacing', label: 'Layer spacing', defaultValue: 25, min: 0 },
+      { name: 'columnSpacing', label: 'Column spacing', defaultValue: 25, min: 1 }
+    ]
+  },
+  tree: {
+    label: 'Tree',
+    parameters: [
+      { name: 'angle', label: 'Direction', defaultValue: 0, options: directions },
+      { name: 'layerSpacing', label: 'Layer spacing', defaultValue: 50, min: 0 },
+      { name: 'nodeSpacing', label: 'Node spacing', defaultValue: 20, min: 0 }
+    ]
+  },
+  grid: {
+    label: 'Grid',
+    parameters: [
+      { name: 'wrappingColumn', label: 'Columns (0 for auto)', defaultValue: 0, min: 0 },
+      { name: 'spacing', label: 'Spacing', defaultValue: 10, min: 0 }
+    ]
+  },
+  circular: {
+    label: 'Circular',
+    parameters: [
+      { name: 'radius', label: 'Radius (0 for auto)', defaultValue: 0, min: 0 },
+      { name: 'startAngle', label: 'Start angle', defaultValue: 0 }
+    ]
+  }
+};
+
+/**
+ * Make layout settings from whatever is in modelData.layout, which may be missing or come from an old or hand-edited file.
+ * Unknown kinds become force-directed, the original layout, and missing or invalid parameters get their defaults.
+ */
+export function normalizeLayoutSettings(value: any): LayoutSettings {
+  const kind: LayoutKind = value && Object.prototype.hasOwnProperty.call(layoutKinds, value.kind) ? value.kind : 'force';
+  const given = (value && value.kind === kind && value.params) || {};
+  const params: { [name: string]: number } = {};
+  layoutKinds[kind].parameters.forEach((param) => {
+    const v = given[param.name];
+    const valid = typeof v === 'number' && isFinite(v) && (param.min === undefined || v >= param.min) &&
+      (param.options === undefined || param.options.includes(v));
+    params[param.name] = valid ? v : param.defaultValue;
+  });
+  return { kind, params };
+}
+
+// the settings each layout was made from, so an unchanged layout isn't replaced
+const layoutSources = new WeakMap<go.Layout, string>();
+
+/**
+ * Make a GoJS layout from layout settings.
+ */
+export function makeLayout(settings: LayoutSettings): go.Layout {
+  const $ = go.GraphObject.make;
+  const p = settings.params;
+  let layout: go.Layout;
+  switch (settings.kind) {
+    case 'layered':
+      layout = $(go.LayeredDigraphLayout, { direction: p.direction, layerSpacing: p.layerSpacing, columnSpacing: p.columnSpacing });
+      break;
+    case 'tree':
+      layout = $(go.TreeLayout, { angle: p.angle, layerSpacing: p.layerSpacing, nodeSpacing: p.nodeSpacing });
+      break;
+    case 'grid':
+      layout = $(go.GridLayout, { wrappingColumn: p.wrappingColumn > 0 ? p.wrappingColumn : NaN, spacing: new go.Size(p.spacing, p.spacing) });
+      break;
+    case 'circular':
+      layout = $(go.CircularLayout, { radius: p.radius > 0 ? p.radius : NaN, startAngle: p.startAngle });
+      break;
+    default:
+      layout = $(go.ForceDirectedLayout, { maxIterations: p.maxIterations, defaultSpringLength: p.defaultSpringLength, defaultElectricalCharge: p.defaultElectricalCharge });
+      break;
+  }
+  layoutSources.set(layout, JSON.stringify(settings));
+  return layout;
+}
+
+/**
+ * Switch the diagram to a new layout and lay it out, recording the choice in modelData.
+ * Both happen in one transaction, so undoing it restores the old choice and the old node locations together.
+ */
+export function changeLayout(diagram: go.Diagram, settings: LayoutSettings): void {
+  const normalized = normalizeLayoutSettings(settings);
+  diagram.commit((d) => {
+    d.model.set(d.model.modelData, 'layout', normalized);
+    d.layout = makeLayout(normalized);
+    d.layoutDiagram(true);
+  }, 'change layout');
+}
+
+/**
+ * Make the diagram's layout match modelData.layout after it changed some other way, by undo or redo,
+ * a collaborator, or opening a file. The diagram isn't laid out again, since the node locations
+ * came along with the change, unless a layout was already pending.
+ */
+export function syncLayout(diagram: go.Diagram, value: any): void {
+  const settings = normalizeLayoutSettings(value);
+  if (layoutSources.get(diagram.layout) === JSON.stringify(settings)) return;
+  const wasValid = diagram.layout.isValidLayout;
+  diagram.layout = makeLayout(settings);
+  diagram.layout.isValidLayout = wasValid;
+}
@@ -0,0 +1,119 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData } from '../hooks/useGoModelState';
+import { errorsFromLink, newErrors, RuleViolation, validateRules, ValidationRule } from './rules';
+
+type Link = KeyedData & { from: go.Key; to: go.Key; fromPort?: string; toPort?: string };
+
+function diagram(nodes: Array<go.ObjectData>, links: Array<Link>): DiagramContents {
+  return { nodeDataArray: nodes as Array<KeyedData>, linkDataArray: links, modelData: {} };
+}
+
+// the rule, kind and key of each violation
+const found = (violations: Array<RuleViolation>) => violations.map((v: RuleViolation) => [v.rule, v.kind, v.key]);
+
+describe('validateRules', () => {
+  const nodes = [{ key: 'a', text: 'A' }, { key: 'b', text: 'B' }];
+
+  it('finds self-links and links missing a node', () => {
+    const rules: Array<ValidationRule> = [
+      { id: 'self', type: 'noSelfLinks', message: 'links a node to itself' },
+      { id: 'dangling', type: 'noDanglingLinks', message: 'is missing a node' }
+    ];
+    const data = diagram(nodes, [{ key: 1, from: 'a', to: 'a' }, { key: 2, from: 'a', to: 'b' }, { key: 3, from: 'a', to: 'z' }]);
+    expect(found(validateRules(data, rules))).toEqual([['self', 'link', 1], ['dangling', 'link', 3]]);
+  });
+
+  it('finds every link after the first between the same ports', () => {
+    const rules: Array<ValidationRule> = [{ id: 'dup', type: 'noDuplicateLinks', message: 'duplicates another link' }];
+    const data = diagram(nodes, [
+      { key: 1, from: 'a', to: 'b' },
+      { key: 2, from: 'a', to: 'b', fromPort: '' },
+      { key: 3, from: 'a', to: 'b', fromPort: 'T' },
+      { key: 4, from: 'b', to: 'a' },
+      { key: 5, from: 'a', to: 'b' }
+    ]);
+    expect(found(validateRules(data, rules))).toEqual([['dup', 'link', 2], ['dup', 'link', 5]]);
+  });
+
+  it('finds empty required properties, limited to a category if the rule has one', () => {
+    const rules: Array<ValidationRule> = [
+      { id: 'text', type: 'required', property: 'text', message: 'has no text' },
+      { id: 'owner', type: 'required', property: 'owner', category: 'task', message: 'has no owner' },
+      { id: 'color', type: 'required', property: 'color', category: '', message: 'has no color' }
+    ];
+    const data = diagram([
+      { key: 1, text: 'One', color: 'red' },
+      { key: 2, text: ' ', color: 'red' },
+      { key: 3, category: 'task', text: 'Three', owner: 'me' },
+      { key: 4, category: 'task', owner: null },
+      { key: 5, text: 'Five' }
+    ], []);
+    expect(found(validateRules(data, rules))).toEqual([
+      ['text', 'node', 2], ['text', 'node', 4], ['owner', 'node', 4], ['color', 'node', 5]
+    ]);
+  });
+
+  it('counts links in and out of nodes against their limits', () => {
+    const rules: Array<ValidationRule> = [
+      { id: 'branches', type: 'minLinks', direction: 'out', count: 2, category: 'decision', message: 'needs two branches' },
+      { id: 'one-in', type: 'maxLinks', direction: 'in', count: 1, message: 'has more than one way in' }
+    ];
+    const data = diagram([{ key: 'd', category: 'decision' }, { key: 'e', category: 'decision' }, { key: 'x' }, { key: 'y' }], [
+      { key: 1, from: 'd', to: 'x' },
+      { key: 2, from: 'd', to: 'y' },
+      { key: 3, from: 'e', to: 'x' },
+      { key: 4, from: 'x', to: 'y' }
+    ]);
+    expect(found(validateRules(data, rules))).toEqual([['branches', 'node', 'e'], ['one-in', 'node', 'x'], ['one-in', 'node', 'y']]);
+  });
+
+  it("reports violations as errors unless a rule says they're warnings", () => {
+    const rules: Array<ValidationRule> = [
+      { id: 'text', type: 'required', property: 'text', message: 'has no text' },
+      { id: 'color', type: 'required', property: 'color', message: 'has no color', severity: 'warning' }
+    ];
+    expect(validateRules(diagram([{ key: 1 }], []), rules)).toEqual([
+      { rule: 'text', severity: 'error', kind: 'node', key: 1, message: 'has no text' },
+      { rule: 'color', severity: 'warning', kind: 'node', key: 1, message: 'has no color' }
+    ]);
+  });
+});
+
+describe('newErrors', () => {
+  it('lists the errors that are new, leaving out warnings', () => {
+    const error = (key: go.Key): RuleViolation => ({ rule: 'r', severity: 'error', kind: 'node', key, message: '' });
+    const warning: RuleViolation = { rule: 'w', severity: 'warning', kind: 'node', key: 2, message: '' };
+    const linkError: RuleViolation = { ...error(1), kind: 'link' };
+    expect(newErrors([error(1)], [error(1), error(2), warning, linkError])).toEqual([error(2), linkError]);
+  });
+});
+
+describe('errorsFromLink', () => {
+  const rules: Array<ValidationRule> = [
+    { id: 'self', type: 'noSelfLinks', message: 'links a node to itself' },
+    { id: 'dup', type: 'noDuplicateLinks', message: 'duplicates another link' },
+    { id: 'one-out', type: 'maxLinks', direction: 'out', count: 1, message: 'has more than one way out' },
+    { id: 'self-warning', type: 'noSelfLinks', message: 'links a node to itself', severity: 'warning' }
+  ];
+  // 'c' already breaks the limit, which a new link shouldn't be blamed for
+  const data = diagram([{ key: 'a' }, { key: 'b' }, { key: 'c' }], [
+    { key: 1, from: 'a', to: 'b' },
+    { key: 2, from: 'c', to: 'a' },
+    { key: 3, from: 'c', to: 'b' }
+  ]);
+
+  it('finds the errors a new link would bring in', () => {
+    expect(found(errorsFromLink(data, rules, { from: 'b', to: 'c' }))).toEqual([]);
+    expect(found(errorsFromLink(data, rules, { from: 'b', to: 'b' }))).toEqual([['self', 'link', undefined]]);
+    expect(found(errorsFromLink(data, rules, { from: 'a', to: 'c' }))).toEqual([['one-out', 'node', 'a']]);
+    expect(found(errorsFromLink(data, rules, { from: 'c', to: 'b' }))).toEqual([['dup', 'link', undefined]]);
+  });
+
+  it('checks a relinked link in place of the one it replaces', () => {
+    expect(found(errorsFromLink(data, rules, { key: 1, from: 'a', to: 'c' }, 1))).toEqual([]);
+    expect(found(errorsFromLink(data, rules, { key: 2, from: 'c', to: 'b' }, 2))).toEqual([['dup', 'link', 2]]);
+    expect(found(errorsFromLink(data, rules, { key: 1, from: 'b', to: 'a' }, 1))).toEqual([]);
+    expect(found(errorsFromLink(data, rules, { key: 1, from: 'c', to: 'a' }, 1))).toEqual([['dup', 'link', 1]]);
+  });
+});
@@ -0,0 +1,149 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData } from '../hooks/useGoModelState';
+
+export type RuleSeverity = 'error' | 'warning';
+
+/**
+ * What a rule checks, as plain data so that rules can be listed, saved or sent along with a diagram.
+ * Node rules may be limited to one category, '' being nodes without one.
+ */
+export type RuleSpec =
+  | { type: 'noSelfLinks' }
+  | { type: 'noDanglingLinks' }  // links whose from or to node isn't in the diagram
+  | { type: 'noDuplicateLinks' }  // further links between the same ports of the same nodes
+  | { type: 'required'; property: string; category?: string }  // node properties that must not be empty
+  | { type: 'minLinks'; direction: 'out' | 'in'; count: number; category?: string }
+  | { type: 'maxLinks'; direction: 'out' | 'in'; count: number; category?: string };
+
+/**
+ * A rule with the message shown for data breaking it. Errors may be rejected as they are made; warnings are only shown.
+ */
+export type ValidationRule = RuleSpec & {
+  id: string;
+  message: string;
+  severity?: RuleSeverity;  // 'error' by default
+};
+
+export interface RuleViolation {
+  rule: string;  // the rule's id
+  severity: RuleSeverity;
+  kind: 'node' | 'link';
+  key: go.Key;
+  message: string;
+}
+
+interface RuleContext {
+  nodes: Map<go.Key, go.ObjectData>;
+  out: Map<go.Key, number>;
+  in: Map<go.Key, number>;
+  firstLinks: Map<string, go.ObjectData>;  // the first link between each pair of ports
+}
+
+function portPair(ld: go.ObjectData): string {
+  return JSON.stringify([ld.from, ld.fromPort || '', ld.to, ld.toPort || '']);
+}
+
+function buildContext(data: DiagramContents): RuleContext {
+  const ctx: RuleContext = { nodes: new Map(), out: new Map(), in: new Map(), firstLinks: new Map() };
+  data.nodeDataArray.forEach((nd: go.ObjectData) => ctx.nodes.set(nd.key, nd));
+  data.linkDataArray.forEach((ld: go.ObjectData) => {
+    ctx.out.set(ld.from, (ctx.out.get(ld.from) || 0) + 1);
+    ctx.in.set(ld.to, (ctx.in.get(ld.to) || 0) + 1);
+    const pair = portPair(ld);
+    if (!ctx.firstLinks.has(pair)) ctx.firstLinks.set(pair, ld);
+  });
+  return ctx;
+}
+
+function isEmpty(val: any): boolean {
+  return val === undefined || val === null || (typeof val === 'string' && val.trim() === '');
+}
+
+function appliesTo(category: string | undefined, nd: go.ObjectData): boolean {
+  return category === undefined || (nd.category || '') === category;
+}
+
+/**
+ * Whether a node breaks a rule. Rules about links never apply to nodes.
+ */
+function nodeBreaks(rule: ValidationRule, nd: go.ObjectData, ctx: RuleContext): boolean {
+  switch (rule.type) {
+    case 'required':
+      return appliesTo(rule.category, nd) && isEmpty(nd[rule.property]);
+    case 'minLinks':
+      return appliesTo(rule.category, nd) && ((rule.direction === 'out' ? ctx.out : ctx.in).get(nd.key) || 0) < rule.count;
+    case 'maxLinks':
+      return appliesTo(rule.category, nd) && ((rule.direction === 'out' ? ctx.out : ctx.in).get(nd.key) || 0) > rule.count;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a link breaks a rule. Rules about nodes never apply to links.
+ */
+function linkBreaks(rule: ValidationRule, ld: go.ObjectData, ctx: RuleContext): boolean {
+  switch (rule.type) {
+    case 'noSelfLinks':
+      return ld.from !== undefined && ld.from === ld.to;
+    case 'noDanglingLinks':
+      return !ctx.nodes.has(ld.from) || !ctx.nodes.has(ld.to);
+    case 'noDuplicateLinks':
+      return ctx.firstLinks.get(portPair(ld)) !== ld;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check all of a diagram's nodes and links against the rules.
+ * @return the violations, nodes first, each in model order; empty if the diagram keeps every rule
+ */
+export function validateRules(data: DiagramContents, rules: Array<ValidationRule>): Array<RuleViolation> {
+  const ctx = buildContext(data);
+  const violations: Array<RuleViolation> = [];
+  const report = (rule: ValidationRule, kind: 'node' | 'link', key: go.Key) => {
+    violations.push({ rule: rule.id, severity: rule.severity || 'error', kind, key, message: rule.message });
+  };
+  data.nodeDataArray.forEach((nd: go.ObjectData) => {
+    rules.forEach((rule: ValidationRule) => {
+      if (nodeBreaks(rule, nd, ctx)) report(rule, 'node', nd.key);
+    });
+  });
+  data.linkDataArray.forEach((ld: go.ObjectData) => {
+    rules.forEach((rule: ValidationRule) => {
+      if (linkBreaks(rule, ld, ctx)) report(rule, 'link', ld.key);
+    });
+  });
+  return violations;
+}
+
+function violationId(v: RuleViolation): string {
+  return `${v.rule} ${v.kind} ${JSON.stringify(v.key)}`;
+}
+
+/**
+ * The errors in one list of violations that aren't in another, such as those a change to the diagram brought in.
+ * Warnings are left out, since they are never rejected.
+ */
+export function newErrors(before: Array<RuleViolation>, after: Array<RuleViolation>): Array<RuleViolation> {
+  const known = new Set<string>(before.map(violationId));
+  return after.filter((v: RuleViolation) => v.severity === 'error' && !known.has(violationId(v)));
+}
+
+/**
+ * The errors that adding a link, or reconnecting one, would bring in, for deciding whether to allow it
+ * before it is made. This counts the link toward its nodes' limits as well as checking the link itself.
+ * @param data the diagram as it is
+ * @param ld the data of the link to be made, whose key may still be undefined
+ * @param replacing the key of the link being reconnected, if any
+ */
+export function errorsFromLink(data: DiagramContents, rules: Array<ValidationRule>, ld: go.ObjectData, replacing?: go.Key): Array<RuleViolation> {
+  const others = replacing === undefined
+    ? data.linkDataArray
+    : data.linkDataArray.filter((other: go.ObjectData) => other.key !== replacing);
+  const before = validateRules(data, rules);
+  const after = validateRules({ ...data, linkDataArray: [...others, ld as KeyedData] }, rules);
+  return newErrors(before, after);
+}
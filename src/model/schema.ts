@@ -0,0 +1,153 @@
+import * as go from 'gojs';
+
+/**
+ * The kinds of values a data property may hold.
+ * 'key' accepts a string or number, and 'point' accepts a string parsable by go.Point.parse.
+ */
+export type PropertyType = 'string' | 'number' | 'boolean' | 'key' | 'point';
+
+export interface PropertySchema {
+  type: PropertyType;
+  required?: boolean;
+  enum?: Array<string>;
+}
+
+/**
+ * Describes the properties allowed on node or link data.
+ * Unless additionalProperties is true, properties not listed are reported as violations,
+ * which catches typos such as 'colour' for 'color'. Names starting with customPrefix, if given,
+ * are custom fields, which are allowed and may hold any value.
+ */
+export interface DataSchema {
+  properties: { [name: string]: PropertySchema };
+  additionalProperties?: boolean;
+  customPrefix?: string;  // such as 'x-', for fields added by users
+}
+
+export interface SchemaViolation {
+  key: go.Key;
+  property: string;
+  message: string;
+}
+
+/**
+ * Checks whether a string is two numbers separated by whitespace, as produced by go.Point.stringify.
+ */
+export function isPointString(val: string): boolean {
+  const arr = val.trim().split(/\s+/);
+  return arr.length === 2 && arr.every((s: string) => s !== '' && !isNaN(Number(s)));
+}
+
+/**
+ * The value given to a newly added property: the first enum option if there is one,
+ * otherwise an empty value of the property's type. Properties without a schema start as empty strings.
+ */
+export function defaultValueFor(prop?: PropertySchema): string | number | boolean {
+  if (!prop) return '';
+  if (prop.enum && prop.enum.length > 0) return prop.enum[0];
+  switch (prop.type) {
+    case 'number': return 0;
+    case 'boolean': return false;
+    case 'point': return '0 0';
+    default: return '';
+  }
+}
+
+/**
+ * Whether data may have a property: a listed one, a custom field, or any at all if additionalProperties is true.
+ */
+export function isAllowedProperty(schema: DataSchema, name: string): boolean {
+  if (schema.additionalProperties || schema.properties[name] !== undefined) return true;
+  return !!schema.customPrefix && name.startsWith(schema.customPrefix) && name.length > schema.customPrefix.length;
+}
+
+function matchesType(val: any, type: PropertyType): boolean {
+  switch (type) {
+    case 'string': return typeof val === 'string';
+    case 'number': return typeof val === 'number' && !isNaN(val);
+    case 'boolean': return typeof val === 'boolean';
+    case 'key': return typeof val === 'string' || (typeof val === 'number' && !isNaN(val));
+    case 'point': return typeof val === 'string' && isPointString(val);
+    default: return false;
+  }
+}
+
+/**
+ * Validate a single data object against a schema.
+ * Properties starting with '__' are internal to GoJS and are ignored,
+ * as are properties set to undefined, which is how properties are removed.
+ * @param data the node or link data
+ * @param schema the schema to validate against
+ * @return the list of violations, empty if the data is valid
+ */
+export function validateData(data: go.ObjectData, schema: DataSchema): Array<SchemaViolation> {
+  const violations: Array<SchemaViolation> = [];
+  const key = data.key;
+  for (const name in schema.properties) {
+    const prop = schema.properties[name];
+    const val = data[name];
+    if (val === undefined) {
+      if (prop.required) violations.push({ key, property: name, message: `missing required property '${name}'` });
+      continue;
+    }
+    if (!matchesType(val, prop.type)) {
+      violations.push({ key, property: name, message: `'${name}' must be of type ${prop.type}` });
+    } else if (prop.enum && !prop.enum.includes(val)) {
+      violations.push({ key, property: name, message: `'${name}' must be one of ${prop.enum.join(', ')}` });
+    }
+  }
+  for (const name in data) {
+    if (name.startsWith('__') || data[name] === undefined || isAllowedProperty(schema, name)) continue;
+    violations.push({ key, property: name, message: `unknown property '${name}'` });
+  }
+  return violations;
+}
+
+/**
+ * Validate the modified node and link data in a set of incremental changes.
+ */
+export function validateIncrementalData(obj: go.IncrementalData, nodeSchema?: DataSchema, linkSchema?: DataSchema): Array<SchemaViolation> {
+  let violations: Array<SchemaViolation> = [];
+  if (nodeSchema && obj.modifiedNodeData) {
+    obj.modifiedNodeData.forEach((nd: go.ObjectData) => {
+      violations = violations.concat(validateData(nd, nodeSchema));
+    });
+  }
+  if (linkSchema && obj.modifiedLinkData) {
+    obj.modifiedLinkData.forEach((ld: go.ObjectData) => {
+      violations = violations.concat(validateData(ld, linkSchema));
+    });
+  }
+  return violations;
+}
+
+/**
+ * Split a set of incremental changes into the part that keeps to the schemas and the violations of the rest.
+ * Modified node and link data breaking its schema is left out, and so is its key if it was inserted;
+ * removals and modelData are kept as they are.
+ * @return the changes without the invalid data, and the violations found in it
+ */
+export function filterIncrementalData(obj: go.IncrementalData, nodeSchema?: DataSchema, linkSchema?: DataSchema):
+    { valid: go.IncrementalData; violations: Array<SchemaViolation> } {
+  let violations: Array<SchemaViolation> = [];
+  const valid: go.IncrementalData = { ...obj };
+  const filter = (arr: Array<go.ObjectData> | undefined, inserted: Array<go.Key> | undefined, schema: DataSchema | undefined) => {
+    if (!schema || !arr) return { arr, inserted };
+    const rejected = new Set<go.Key>();
+    const kept = arr.filter((data: go.ObjectData) => {
+      const found = validateData(data, schema);
+      if (found.length === 0) return true;
+      violations = violations.concat(found);
+      rejected.add(data.key);
+      return false;
+    });
+    return { arr: kept, inserted: inserted && inserted.filter((key: go.Key) => !rejected.has(key)) };
+  };
+  const nodes = filter(obj.modifiedNodeData, obj.insertedNodeKeys, nodeSchema);
+  valid.modifiedNodeData = nodes.arr;
+  valid.insertedNodeKeys = nodes.inserted;
+  const links = filter(obj.modifiedLinkData, obj.insertedLinkKeys, linkSchema);
+  valid.modifiedLinkData = links.arr;
+  valid.insertedLinkKeys = links.inserted;
+  return { valid, violations };
+}
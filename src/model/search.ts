@@ -0,0 +1,157 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData, SelectedData } from '../hooks/useGoModelState';
+import { highlightKeys, highlightParts } from './highlight';
+
+export type SearchOperator = '=' | '!=' | '~' | '<' | '<=' | '>' | '>=';
+
+/**
+ * One condition of a search. Free text matches any property value containing it;
+ * a property term compares one property, such as `color = orange` or `duration >= 2`.
+ */
+export type SearchTerm =
+  | { kind: 'text'; text: string }
+  | { kind: 'property'; property: string; operator: SearchOperator; value: string };
+
+// a property comparison, then a quoted phrase, then a bare word
+const termPattern = /([A-Za-z_$][\w$]*)\s*(!=|<=|>=|=|~|<|>)\s*("[^"]*"?|[^\s"]+)|("[^"]*"?)|(\S+)/;
+
+function unquote(s: string): string {
+  if (!s.startsWith('"')) return s;
+  return s.endsWith('"') && s.length > 1 ? s.substring(1, s.length - 1) : s.substring(1);
+}
+
+/**
+ * Split a search into its terms, all of which must match.
+ * Values and phrases with spaces can be quoted, as in `text = "new node"`.
+ */
+export function parseSearchQuery(query: string): Array<SearchTerm> {
+  const terms: Array<SearchTerm> = [];
+  const re = new RegExp(termPattern.source, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(query)) !== null) {
+    if (m[1] !== undefined) {
+      terms.push({ kind: 'property', property: m[1], operator: m[2] as SearchOperator, value: unquote(m[3]) });
+    } else {
+      const text = unquote(m[4] !== undefined ? m[4] : m[5]);
+      if (text !== '') terms.push({ kind: 'text', text });
+    }
+  }
+  return terms;
+}
+
+function valueText(val: any): string | null {
+  if (typeof val === 'string') return val;
+  if (typeof val === 'number' || typeof val === 'boolean') return String(val);
+  return null;
+}
+
+/**
+ * Compare a data value with a value typed in a search: as numbers if both are numbers, otherwise as
+ * case-insensitive text. Missing and non-scalar values only match `!=`.
+ */
+export function compareValue(val: any, operator: SearchOperator, value: string): boolean {
+  const text = valueText(val);
+  if (text === null) return operator === '!=';
+  const num = Number(value);
+  const numeric = typeof val === 'number' && value.trim() !== '' && !isNaN(num);
+  const a = numeric ? val as number : text.toLowerCase();
+  const b = numeric ? num : value.toLowerCase();
+  switch (operator) {
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '~': return text.toLowerCase().includes(value.toLowerCase());
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return false;
+  }
+}
+
+function containsText(data: go.ObjectData, text: string): boolean {
+  const lower = text.toLowerCase();
+  return Object.keys(data).some((name: string) => {
+    if (name.startsWith('__')) return false;
+    const val = valueText(data[name]);
+    return val !== null && val.toLowerCase().includes(lower);
+  });
+}
+
+/**
+ * Whether node or link data meets one search term.
+ * The pseudo-property `kind` is 'node' or 'link'. On links, `from` and `to` also match
+ * the text of the node at that end, so `from = Alpha` finds the links leaving the node labeled Alpha.
+ * @param sd the data, tagged as a node or a link
+ * @param term the condition to check
+ * @param nodeText the text of each node by key, for matching link ends
+ */
+export function matchesTerm(sd: SelectedData, term: SearchTerm, nodeText: Map<go.Key, string>): boolean {
+  if (term.kind === 'text') return containsText(sd.data, term.text);
+  if (term.property === 'kind') return compareValue(sd.kind, term.operator, term.value);
+  const val = (sd.data as go.ObjectData)[term.property];
+  if (sd.kind === 'link' && (term.property === 'from' || term.property === 'to')) {
+    const end = nodeText.get(val);
+    const positive = term.operator !== '!=';
+    const byKey = compareValue(val, term.operator, term.value);
+    const byText = end === undefined ? !positive : compareValue(end, term.operator, term.value);
+    return positive ? byKey || byText : byKey && byText;
+  }
+  return compareValue(val, term.operator, term.value);
+}
+
+/**
+ * The text of each node that has some, by key.
+ */
+export function nodeTextIndex(nodeDataArray: Array<go.ObjectData>): Map<go.Key, string> {
+  const nodeText = new Map<go.Key, string>();
+  nodeDataArray.forEach((nd: go.ObjectData) => {
+    if (typeof nd.text === 'string') nodeText.set(nd.key, nd.text);
+  });
+  return nodeText;
+}
+
+/**
+ * A short description of a search result for listing: a node's text, or a link's ends by their text.
+ */
+export function describeResult(sd: SelectedData, nodeText: Map<go.Key, string>): string {
+  const name = (key: go.Key) => nodeText.get(key) || String(key);
+  const data: go.ObjectData = sd.data;
+  if (sd.kind === 'node') return name(data.key);
+  const label = typeof data.text === 'string' && data.text !== '' ? ` (${data.text})` : '';
+  return `${name(data.from)} → ${name(data.to)}${label}`;
+}
+
+/**
+ * Find the nodes and links meeting every term of a search, nodes first, each in model order.
+ * No terms find nothing, rather than everything.
+ */
+export function searchDiagram<N extends KeyedData, L extends KeyedData>(data: DiagramContents<N, L>, terms: Array<SearchTerm>): Array<SelectedData<N, L>> {
+  if (terms.length === 0) return [];
+  const nodeText = nodeTextIndex(data.nodeDataArray);
+  const all: Array<SelectedData<N, L>> = [
+    ...data.nodeDataArray.map((nd: N) => ({ kind: 'node' as const, data: nd })),
+    ...data.linkDataArray.map((ld: L) => ({ kind: 'link' as const, data: ld }))
+  ];
+  return all.filter((sd: SelectedData<N, L>) => terms.every((term: SearchTerm) => matchesTerm(sd, term, nodeText)));
+}
+
+/**
+ * The part in the diagram for a search result, if it is there.
+ */
+export function findPartFor(diagram: go.Diagram, sd: SelectedData): go.Part | null {
+  return sd.kind === 'node' ? diagram.findNodeForKey(sd.data.key) : diagram.findLinkForKey(sd.data.key);
+}
+
+/**
+ * Highlight the parts of the search results and dim all the others, or with null, undo that.
+ */
+export function highlightResults(diagram: go.Diagram, results: Array<SelectedData> | null): void {
+  if (results === null) {
+    highlightParts(diagram, null);
+    return;
+  }
+  const nodes = results.filter((sd: SelectedData) => sd.kind === 'node');
+  const links = results.filter((sd: SelectedData) => sd.kind === 'link');
+  highlightKeys(diagram, nodes.map((sd: SelectedData) => sd.data.key), links.map((sd: SelectedData) => sd.data.key));
+}
@@ -0,0 +1,138 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData } from '../hooks/useGoModelState';
+import { DataSchema, SchemaViolation, validateData } from '../model/schema';
+
+/**
+ * The version of the file format written by serializeDiagram.
+ * Files without a formatVersion are plain go.Model.toJson output and are read as version 1.
+ */
+export const DIAGRAM_FILE_VERSION = 1;
+
+/**
+ * The contents of a diagram file. This is a superset of what go.Model.toJson writes for a GraphLinksModel,
+ * so files can also be read with go.Model.fromJson, which ignores formatVersion.
+ */
+export interface DiagramFile<N extends KeyedData = KeyedData, L extends KeyedData = KeyedData> {
+  class: string;
+  formatVersion: number;
+  linkKeyProperty: string;
+  nodeDataArray: Array<N>;
+  linkDataArray: Array<L>;
+  modelData: go.ObjectData;
+}
+
+/**
+ * Drop properties GoJS uses internally, which start with '__', and removed properties that are undefined.
+ */
+function stripInternal<T extends go.ObjectData>(data: T): T {
+  const copy: go.ObjectData = {};
+  Object.keys(data).forEach((k: string) => {
+    if (!k.startsWith('__') && data[k] !== undefined) copy[k] = data[k];
+  });
+  return copy as T;
+}
+
+/**
+ * Serialize the nodes, links and modelData of a diagram as a versioned JSON string.
+ */
+export function serializeDiagram<N extends KeyedData, L extends KeyedData>(data: DiagramContents<N, L>): string {
+  const file: DiagramFile<N, L> = {
+    class: 'GraphLinksModel',
+    formatVersion: DIAGRAM_FILE_VERSION,
+    linkKeyProperty: 'key',
+    nodeDataArray: data.nodeDataArray.map(stripInternal),
+    linkDataArray: data.linkDataArray.map(stripInternal),
+    modelData: stripInternal(data.modelData)
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isObject(val: any): val is go.ObjectData {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+function isKey(val: any): val is go.Key {
+  return typeof val === 'string' || (typeof val === 'number' && !isNaN(val));
+}
+
+function formatViolations(kind: string, violations: Array<SchemaViolation>): string {
+  return violations.map((v: SchemaViolation) => `${kind} ${v.key}: ${v.message}`).join('; ');
+}
+
+/**
+ * Parse and validate the text of a diagram file.
+ * Every node and link must have a unique key, links must refer to existing nodes,
+ * and if schemas are given all data must satisfy them.
+ * @param text the JSON text of the file
+ * @param nodeSchema optional schema for node data
+ * @param linkSchema optional schema for link data
+ * @return the nodes, links and modelData in the file
+ * @throws Error describing the first problem found
+ */
+export function parseDiagramFile<N extends KeyedData, L extends KeyedData>(text: string, nodeSchema?: DataSchema, linkSchema?: DataSchema): DiagramContents<N, L> {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (ex) {
+    throw new Error('Diagram file is not valid JSON.');
+  }
+  if (!isObject(json)) throw new Error('Diagram file must contain a JSON object.');
+  if (json.class !== 'GraphLinksModel' && json.class !== 'go.GraphLinksModel') {
+    throw new Error(`Diagram file must hold a GraphLinksModel, not ${json.class}.`);
+  }
+  const version = json.formatVersion === undefined ? 1 : json.formatVersion;
+  if (typeof version !== 'number' || version > DIAGRAM_FILE_VERSION) {
+    throw new Error(`Diagram file version ${version} is not supported; the latest supported version is ${DIAGRAM_FILE_VERSION}.`);
+  }
+  if (json.linkKeyProperty !== 'key') throw new Error(`Diagram file must have a linkKeyProperty of 'key'.`);
+  if (json.nodeKeyProperty !== undefined && json.nodeKeyProperty !== 'key') throw new Error(`Diagram file must have a nodeKeyProperty of 'key'.`);
+
+  const nodeDataArray = json.nodeDataArray === undefined ? [] : json.nodeDataArray;
+  const linkDataArray = json.linkDataArray === undefined ? [] : json.linkDataArray;
+  const modelData = json.modelData === undefined ? {} : json.modelData;
+  if (!Array.isArray(nodeDataArray) || !nodeDataArray.every(isObject)) throw new Error('nodeDataArray must be an array of objects.');
+  if (!Array.isArray(linkDataArray) || !linkDataArray.every(isObject)) throw new Error('linkDataArray must be an array of objects.');
+  if (!isObject(modelData)) throw new Error('modelData must be an object.');
+
+  const nodeKeys = new Set<go.Key>();
+  nodeDataArray.forEach((nd: go.ObjectData) => {
+    if (!isKey(nd.key)) throw new Error('Every node must have a string or number key.');
+    if (nodeKeys.has(nd.key)) throw new Error(`Duplicate node key ${nd.key}.`);
+    nodeKeys.add(nd.key);
+  });
+  const linkKeys = new Set<go.Key>();
+  linkDataArray.forEach((ld: go.ObjectData) => {
+    if (!isKey(ld.key)) throw new Error('Every link must have a string or number key.');
+    if (linkKeys.has(ld.key)) throw new Error(`Duplicate link key ${ld.key}.`);
+    linkKeys.add(ld.key);
+    if (ld.from !== undefined && !nodeKeys.has(ld.from)) throw new Error(`Link ${ld.key} comes from missing node ${ld.from}.`);
+    if (ld.to !== undefined && !nodeKeys.has(ld.to)) throw new Error(`Link ${ld.key} goes to missing node ${ld.to}.`);
+  });
+  const groupKeys = new Set<go.Key>();
+  nodeDataArray.forEach((nd: go.ObjectData) => {
+    if (nd.isGroup === true) groupKeys.add(nd.key);
+  });
+  nodeDataArray.forEach((nd: go.ObjectData) => {
+    if (nd.group !== undefined && !groupKeys.has(nd.group)) throw new Error(`Node ${nd.key} belongs to missing group ${nd.group}.`);
+  });
+
+  if (nodeSchema) {
+    nodeDataArray.forEach((nd: go.ObjectData) => {
+      const violations = validateData(nd, nodeSchema);
+      if (violations.length > 0) throw new Error(formatViolations('Node', violations));
+    });
+  }
+  if (linkSchema) {
+    linkDataArray.forEach((ld: go.ObjectData) => {
+      const violations = validateData(ld, linkSchema);
+      if (violations.length > 0) throw new Error(formatViolations('Link', violations));
+    });
+  }
+
+  return {
+    nodeDataArray: nodeDataArray as Array<N>,
+    linkDataArray: linkDataArray as Array<L>,
+    modelData
+  };
+}
@@ -0,0 +1,79 @@
+import * as go from 'gojs';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { LinkData, linkSchema, NodeData, nodeSchema } from '../model/diagramSchema';
+import { sampleDiagram } from '../model/sampleDiagram';
+import { createRestDiagramRepository, DiagramRepository, FetchLike, HttpRequest, toFullDelta } from './diagramRepository';
+import { createMockDiagramServer } from './mockDiagramServer';
+
+interface SentRequest extends HttpRequest {
+  url: string;
+}
+
+// a repository talking to a mock server seeded with the sample, recording every request it sends
+function setup(seed: { [id: string]: DiagramContents } = { sample: sampleDiagram }) {
+  const server = createMockDiagramServer('/api', seed);
+  const sent: Array<SentRequest> = [];
+  const fetchFn: FetchLike = (url: string, init: HttpRequest = {}) => {
+    sent.push({ url, ...init });
+    return server(url, init);
+  };
+  const repo: DiagramRepository<NodeData, LinkData> = createRestDiagramRepository<NodeData, LinkData>('/api', fetchFn, nodeSchema, linkSchema);
+  return { repo, sent };
+}
+
+describe('createRestDiagramRepository', () => {
+  it('lists and loads diagrams', async () => {
+    const { repo, sent } = setup();
+    const list = await repo.list();
+    expect(list.map((d) => d.id)).toEqual(['sample']);
+    expect(await repo.load('sample')).toEqual(sampleDiagram);
+    expect(sent.map((r) => [r.method || 'GET', r.url])).toEqual([['GET', '/api/diagrams'], ['GET', '/api/diagrams/sample']]);
+  });
+
+  it('saves changes as PATCHes of the deltas alone, applied in order', async () => {
+    const { repo, sent } = setup();
+    const changes: Array<go.IncrementalData> = [
+      { modifiedNodeData: [{ key: 1, text: 'Beta 2', color: 'orange', loc: '150 0' }] },
+      { removedNodeKeys: [3], removedLinkKeys: [-4, -5] }
+    ];
+    await repo.save('sample', changes);
+    expect(sent[0]).toMatchObject({ method: 'PATCH', url: '/api/diagrams/sample' });
+    expect(JSON.parse(sent[0].body || '')).toEqual({ changes });
+    const loaded = await repo.load('sample');
+    expect(loaded.nodeDataArray.map((nd: NodeData) => nd.text)).toEqual(['Alpha', 'Beta 2', 'Gamma']);
+    expect(loaded.linkDataArray.map((ld: LinkData) => ld.key)).toEqual([-1, -2, -3]);
+  });
+
+  it('creates a diagram by saving its full delta to a new id, and deletes it', async () => {
+    const { repo } = setup();
+    await repo.save('copy of sample', [toFullDelta(sampleDiagram)]);
+    expect((await repo.list()).map((d) => d.id)).toEqual(['sample', 'copy of sample']);
+    expect(await repo.load('copy of sample')).toEqual(sampleDiagram);
+    await repo.delete('copy of sample');
+    expect((await repo.list()).map((d) => d.id)).toEqual(['sample']);
+  });
+
+  it('rejects with the status of a failed request', async () => {
+    const { repo } = setup();
+    await expect(repo.load('missing')).rejects.toThrow('GET /api/diagrams/missing failed: 404 Not Found');
+    await expect(repo.delete('missing')).rejects.toThrow('DELETE /api/diagrams/missing failed: 404 Not Found');
+    const failing = createRestDiagramRepository('/api', () => Promise.resolve({
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error',
+      text: () => Promise.resolve('')
+    }));
+    await expect(failing.save('sample', [])).rejects.toThrow('PATCH /api/diagrams/sample failed: 500 Internal Server Error');
+  });
+
+  it('rejects a loaded diagram that breaks the schemas', async () => {
+    const invalid = {
+      nodeDataArray: [{ key: 0, text: 'Alpha', color: 'lightblue' }, { key: 1, color: 'orange' }],
+      linkDataArray: [],
+      modelData: {}
+    };
+    const { repo } = setup({ invalid });
+    await expect(repo.load('invalid')).rejects.toThrow(/^Node 1: /);
+  });
+});
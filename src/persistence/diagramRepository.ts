@@ -0,0 +1,98 @@
+import * as go from 'gojs';
+
+import { DiagramContents, KeyedData } from '../hooks/useGoModelState';
+import { DataSchema } from '../model/schema';
+import { parseDiagramFile } from './diagramFile';
+
+export interface DiagramSummary {
+  id: string;
+  updatedAt: number;  // milliseconds since the epoch
+}
+
+/**
+ * Somewhere diagrams can be listed, loaded, saved and deleted.
+ * Saving sends the changes made since the last save rather than the whole diagram;
+ * saving to an id that doesn't exist yet creates the diagram.
+ */
+export interface DiagramRepository<N extends KeyedData = KeyedData, L extends KeyedData = KeyedData> {
+  list: () => Promise<Array<DiagramSummary>>;
+  load: (id: string) => Promise<DiagramContents<N, L>>;
+  save: (id: string, changes: Array<go.IncrementalData>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+/**
+ * The parts of the Fetch API response used by the REST repository.
+ */
+export interface HttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: () => Promise<string>;
+}
+
+export interface HttpRequest {
+  method?: string;
+  headers?: { [name: string]: string };
+  body?: string;
+}
+
+/**
+ * A function with the shape of window.fetch, so a mock server can stand in for the network.
+ */
+export type FetchLike = (url: string, init?: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Describe a whole diagram as changes that insert every node and link,
+ * which is what gets saved when a diagram is first created.
+ */
+export function toFullDelta(contents: DiagramContents): go.IncrementalData {
+  return {
+    insertedNodeKeys: contents.nodeDataArray.map((nd: KeyedData) => nd.key),
+    modifiedNodeData: contents.nodeDataArray,
+    insertedLinkKeys: contents.linkDataArray.map((ld: KeyedData) => ld.key),
+    modifiedLinkData: contents.linkDataArray,
+    modelData: contents.modelData
+  };
+}
+
+async function request(fetchFn: FetchLike, url: string, init?: HttpRequest): Promise<string> {
+  const res = await fetchFn(url, init);
+  if (!res.ok) throw new Error(`${init && init.method ? init.method : 'GET'} ${url} failed: ${res.status} ${res.statusText}`);
+  return res.text();
+}
+
+/**
+ * A DiagramRepository backed by a REST service:
+ *
+ *   GET    {baseUrl}/diagrams      lists the diagrams as an array of DiagramSummary
+ *   GET    {baseUrl}/diagrams/:id  returns a diagram in the format written by serializeDiagram
+ *   PATCH  {baseUrl}/diagrams/:id  applies { changes: Array<go.IncrementalData> } in order
+ *   DELETE {baseUrl}/diagrams/:id  deletes a diagram
+ * @param baseUrl the URL of the service, without a trailing slash
+ * @param fetchFn the function used to make requests, window.fetch by default
+ * @param nodeSchema optional schema that loaded node data must satisfy
+ * @param linkSchema optional schema that loaded link data must satisfy
+ */
+export function createRestDiagramRepository<N extends KeyedData, L extends KeyedData>(
+  baseUrl: string,
+  fetchFn: FetchLike = (url, init) => window.fetch(url, init),
+  nodeSchema?: DataSchema,
+  linkSchema?: DataSchema
+): DiagramRepository<N, L> {
+  const diagramUrl = (id: string) => `${baseUrl}/diagrams/${encodeURIComponent(id)}`;
+  return {
+    list: async () => JSON.parse(await request(fetchFn, `${baseUrl}/diagrams`)) as Array<DiagramSummary>,
+    load: async (id: string) => parseDiagramFile<N, L>(await request(fetchFn, diagramUrl(id)), nodeSchema, linkSchema),
+    save: async (id: string, changes: Array<go.IncrementalData>) => {
+      await request(fetchFn, diagramUrl(id), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes })
+      });
+    },
+    delete: async (id: string) => {
+      await request(fetchFn, diagramUrl(id), { method: 'DELETE' });
+    }
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { LinkData, NodeData } from '../model/diagramSchema';
+import { sampleDiagram } from '../model/sampleDiagram';
+import { parseDot, serializeDot } from './dotFormat';
+
+const fixtures = path.join(__dirname, 'fixtures');
+
+const grouped: DiagramContents<NodeData, LinkData> = {
+  nodeDataArray: [
+    { key: 'g', text: 'Team', color: '#E3F2FD', isGroup: true },
+    { key: 'inner', text: 'Inner', color: 'white', isGroup: true, group: 'g' },
+    { key: 1, text: 'One', color: 'lightblue', group: 'g' },
+    { key: '1', text: 'String one', color: 'orange', group: 'inner' },
+    { key: 'a b', text: 'Spaced "key"', color: 'pink', category: 'decision' }
+  ],
+  linkDataArray: [
+    { key: 10, from: 1, to: '1', text: 'next' },
+    { key: 'x', from: '1', to: 'a b' },
+    { key: 11, from: 'a b', to: 1 }
+  ],
+  modelData: {}
+};
+
+describe('DOT round trips', () => {
+  fs.readdirSync(fixtures).filter((file: string) => file.endsWith('.dot')).forEach((file: string) => {
+    it(`reads back what it writes for ${file}`, () => {
+      const parsed = parseDot(fs.readFileSync(path.join(fixtures, file), 'utf8'));
+      expect(parsed.nodeDataArray.length).toBeGreaterThan(0);
+      expect(parseDot(serializeDot(parsed))).toEqual(parsed);
+    });
+  });
+
+  it('keeps every property of the sample diagram', () => {
+    const result = parseDot(serializeDot(sampleDiagram));
+    expect(result.nodeDataArray).toEqual(sampleDiagram.nodeDataArray);
+    expect(result.linkDataArray).toEqual(sampleDiagram.linkDataArray);
+    expect(result.modelData).toMatchObject(sampleDiagram.modelData);
+  });
+
+  it('keeps nested groups and tells string keys from number keys', () => {
+    const result = parseDot(serializeDot(grouped));
+    const byKey = (a: NodeData, b: NodeData) => JSON.stringify(a.key) < JSON.stringify(b.key) ? -1 : 1;
+    expect([...result.nodeDataArray].sort(byKey)).toEqual([...grouped.nodeDataArray].sort(byKey));
+    expect(result.linkDataArray).toEqual(grouped.linkDataArray);
+  });
+});
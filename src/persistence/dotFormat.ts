@@ -0,0 +1,459 @@
+import * as go from 'gojs';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { LinkData, NodeData } from '../model/diagramSchema';
+import { assignLinkKeys, defaultImportColor, isNumeral, keyFromWord, layeredDirection, layeredLayout, nestNodes } from './graphText';
+
+interface Token {
+  kind: 'id' | 'punct';
+  text: string;
+  quoted: boolean;  // a quoted or HTML string, as opposed to a bare word or number
+  line: number;
+}
+
+interface Attribute {
+  name: string;
+  value: Token;
+}
+
+interface Scope {
+  isRoot: boolean;
+  group: go.Key | undefined;  // the cluster that new nodes belong to
+  groupData: NodeData | null;  // the data of this scope's own cluster, if it is one
+  nodeDefaults: Array<Attribute>;
+  edgeDefaults: Array<Attribute>;
+}
+
+// node categories and the Graphviz shapes that draw them
+const categoryShapes: { [category: string]: string } = {
+  '': 'box',
+  task: 'box',
+  start: 'circle',
+  end: 'doublecircle',
+  decision: 'diamond',
+  note: 'note'
+};
+
+const shapeCategories: { [shape: string]: string } = {
+  circle: 'start',
+  doublecircle: 'end',
+  diamond: 'decision',
+  note: 'note'
+};
+
+// LayeredDigraphLayout directions and the matching rankdir
+const rankdirs: { [direction: number]: string } = { 0: 'LR', 90: 'TB', 180: 'RL', 270: 'BT' };
+
+const keywords = ['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge'];
+
+function unescape(c: string): string {
+  switch (c) {
+    case '"': return '"';
+    case '\\': return '\\';
+    case 'n': case 'l': case 'r': return '\n';
+    default: return '\\' + c;
+  }
+}
+
+/**
+ * Split DOT text into tokens, dropping comments and joining concatenated strings ("a" + "b").
+ */
+function tokenize(text: string): Array<Token> {
+  const tokens: Array<Token> = [];
+  let line = 1;
+  let i = 0;
+  const fail = (message: string): never => {
+    throw new Error(`${message} on line ${line}.`);
+  };
+  while (i < text.length) {
+    const c = text[i];
+    const next = text[i + 1];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if ((c === '/' && next === '/') || c === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (c === '/' && next === '*') {
+      const end = text.indexOf('*/', i + 2);
+      if (end < 0) fail('Unterminated comment');
+      line += text.substring(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (c === '"') {
+      const start = line;
+      let s = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          if (text[i + 1] === '\n') line++;  // a line continuation
+          else s += unescape(text[i + 1]);
+          i += 2;
+        } else {
+          if (text[i] === '\n') line++;
+          s += text[i++];
+        }
+      }
+      if (i >= text.length) fail('Unterminated string');
+      i++;
+      tokens.push({ kind: 'id', text: s, quoted: true, line: start });
+    } else if (c === '<') {
+      const start = i;
+      let depth = 0;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        else if (text[i] === '\n') line++;
+        i++;
+      } while (depth > 0 && i < text.length);
+      if (depth > 0) fail('Unterminated HTML string');
+      tokens.push({ kind: 'id', text: text.substring(start + 1, i - 1), quoted: true, line });
+    } else if (c === '-' && (next === '>' || next === '-')) {
+      tokens.push({ kind: 'punct', text: c + next, quoted: false, line });
+      i += 2;
+    } else if ('{}[];,=:+'.includes(c)) {
+      tokens.push({ kind: 'punct', text: c, quoted: false, line });
+      i++;
+    } else {
+      const m = /^(-?(\d+(\.\d*)?|\.\d+)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.substring(i, i + 256));
+      if (m === null) return fail(`Unexpected '${c}'`);
+      tokens.push({ kind: 'id', text: m[0], quoted: false, line });
+      i += m[0].length;
+    }
+  }
+  // join concatenated strings
+  const joined: Array<Token> = [];
+  tokens.forEach((t: Token, idx: number) => {
+    const prev = joined[joined.length - 1];
+    if (t.kind === 'punct' && t.text === '+' && prev && prev.quoted) return;
+    const plus = tokens[idx - 1];
+    if (t.quoted && plus && plus.kind === 'punct' && plus.text === '+' && prev && prev.quoted) {
+      joined[joined.length - 1] = { ...prev, text: prev.text + t.text };
+      return;
+    }
+    joined.push(t);
+  });
+  return joined;
+}
+
+/**
+ * The value of an attribute: quoted values are strings, and bare numbers and true/false are numbers and booleans,
+ * so properties written by serializeDot keep their types.
+ */
+function valueOf(t: Token): string | number | boolean {
+  if (t.quoted) return t.text;
+  if (t.text === 'true' || t.text === 'false') return t.text === 'true';
+  return isNumeral(t.text) ? parseFloat(t.text) : t.text;
+}
+
+/**
+ * Parse a Graphviz DOT graph into diagram contents.
+ * Nodes are keyed by their DOT ids, their labels become text and their fill colors color,
+ * and their shapes choose a category. Clusters become groups, keyed by their names without the 'cluster_' prefix.
+ * Other attributes are kept as data properties, so any diagram written by serializeDot reads back the same.
+ * Edges become links, keyed by their key attribute if they have one. The diagram is given a layered layout
+ * in the graph's rankdir. Ports, non-cluster subgraph attributes and undirected edge directions are ignored.
+ * @param text the DOT text
+ * @throws Error describing the first syntax error found
+ */
+export function parseDot(text: string): DiagramContents<NodeData, LinkData> {
+  const tokens = tokenize(text);
+  let pos = 0;
+  const nodes = new Map<string, NodeData>();  // by JSON encoded key, so 1 and '1' are different nodes
+  const links: Array<go.ObjectData> = [];
+  const modelData: go.ObjectData = {};
+  let direction = 90;  // dot draws top to bottom unless told otherwise
+  const filled = new Set<go.ObjectData>();  // data whose color came from a fill color rather than an outline color
+  const categorized = new Set<go.ObjectData>();  // data given a category explicitly rather than by shape
+
+  const peek = (offset: number = 0): Token | undefined => tokens[pos + offset];
+  const fail = (message: string): never => {
+    const t = tokens[Math.min(pos, tokens.length - 1)];
+    throw new Error(`${message} on line ${t ? t.line : 1}.`);
+  };
+  const isPunct = (t: Token | undefined, p: string) => t !== undefined && t.kind === 'punct' && t.text === p;
+  const isKeyword = (t: Token | undefined, word: string) => t !== undefined && t.kind === 'id' && !t.quoted && t.text.toLowerCase() === word;
+  const accept = (p: string): boolean => {
+    if (!isPunct(peek(), p)) return false;
+    pos++;
+    return true;
+  };
+  const expect = (p: string): void => {
+    if (!accept(p)) fail(`Expected '${p}'`);
+  };
+  const expectId = (): Token => {
+    const t = peek();
+    if (t === undefined || t.kind !== 'id') return fail('Expected a name');
+    pos++;
+    return t;
+  };
+
+  const applyAttributes = (data: go.ObjectData, attrs: Array<Attribute>, kind: 'node' | 'group' | 'link') => {
+    attrs.forEach(({ name, value }: Attribute) => {
+      switch (name) {
+        case 'label':
+          data.text = value.text;
+          break;
+        case 'fillcolor':
+        case 'bgcolor':
+          data.color = value.text;
+          filled.add(data);
+          break;
+        case 'color':
+          if (!filled.has(data)) data.color = value.text;
+          break;
+        case 'shape': {
+          if (kind !== 'node' || categorized.has(data)) break;
+          const category = shapeCategories[value.text.toLowerCase()];
+          if (category) data.category = category;
+          else delete data.category;
+          break;
+        }
+        case 'category':
+          data.category = value.text;
+          categorized.add(data);
+          break;
+        case 'style':
+          break;
+        case 'key':
+          if (kind === 'link') data.key = valueOf(value);
+          break;
+        case 'from': case 'to':
+          if (kind !== 'link') data[name] = valueOf(value);
+          break;
+        case 'group': case 'isGroup':
+          break;
+        default:
+          data[name] = valueOf(value);
+      }
+    });
+  };
+
+  const touchNode = (key: go.Key, scope: Scope): NodeData => {
+    const id = JSON.stringify(key);
+    let nd = nodes.get(id);
+    if (nd === undefined) {
+      nd = { key, text: String(key), color: defaultImportColor };
+      if (scope.group !== undefined) nd.group = scope.group;
+      applyAttributes(nd, scope.nodeDefaults, 'node');
+      nodes.set(id, nd);
+    }
+    return nd;
+  };
+
+  const parseAttributeList = (): Array<Attribute> => {
+    const attrs: Array<Attribute> = [];
+    while (accept('[')) {
+      while (!accept(']')) {
+        const name = expectId().text;
+        const value: Token = accept('=') ? expectId() : { kind: 'id', text: 'true', quoted: false, line: 0 };
+        attrs.push({ name, value });
+        if (!accept(',')) accept(';');
+      }
+    }
+    return attrs;
+  };
+
+  const applyGraphAttributes = (scope: Scope, attrs: Array<Attribute>) => {
+    if (scope.groupData !== null) {
+      applyAttributes(scope.groupData, attrs, 'group');
+    } else if (scope.isRoot) {
+      attrs.forEach(({ name, value }: Attribute) => {
+        if (name === 'rankdir') {
+          const dir = Object.keys(rankdirs).find((d: string) => rankdirs[Number(d)] === value.text.toUpperCase());
+          if (dir !== undefined) direction = Number(dir);
+        } else {
+          modelData[name] = valueOf(value);
+        }
+      });
+    }
+  };
+
+  // returns the keys of the nodes it mentions, which are the ends of any edges it is part of
+  let parseSubgraph: (scope: Scope) => Array<go.Key>;
+
+  const parseOperand = (scope: Scope): { keys: Array<go.Key>; node: NodeData | null } => {
+    if (isKeyword(peek(), 'subgraph') || isPunct(peek(), '{')) return { keys: parseSubgraph(scope), node: null };
+    const t = expectId();
+    const key = t.quoted ? t.text : keyFromWord(t.text);
+    if (accept(':')) {  // a port, and maybe a compass point
+      expectId();
+      if (accept(':')) expectId();
+    }
+    return { keys: [key], node: touchNode(key, scope) };
+  };
+
+  const parseStatement = (scope: Scope, mentioned: Array<go.Key>) => {
+    const t = peek();
+    if ((isKeyword(t, 'graph') || isKeyword(t, 'node') || isKeyword(t, 'edge')) && isPunct(peek(1), '[')) {
+      pos++;
+      const attrs = parseAttributeList();
+      if (isKeyword(t, 'graph')) applyGraphAttributes(scope, attrs);
+      else if (isKeyword(t, 'node')) scope.nodeDefaults = scope.nodeDefaults.concat(attrs);
+      else scope.edgeDefaults = scope.edgeDefaults.concat(attrs);
+      return;
+    }
+    if (t !== undefined && t.kind === 'id' && isPunct(peek(1), '=')) {
+      pos += 2;
+      applyGraphAttributes(scope, [{ name: t.text, value: expectId() }]);
+      return;
+    }
+    const operands = [parseOperand(scope)];
+    while (isPunct(peek(), '->') || isPunct(peek(), '--')) {
+      pos++;
+      operands.push(parseOperand(scope));
+    }
+    operands.forEach((op) => op.keys.forEach((k: go.Key) => mentioned.push(k)));
+    const attrs = parseAttributeList();
+    if (operands.length === 1) {
+      if (operands[0].node !== null) applyAttributes(operands[0].node, attrs, 'node');
+      return;
+    }
+    for (let i = 1; i < operands.length; i++) {
+      operands[i - 1].keys.forEach((from: go.Key) => {
+        operands[i].keys.forEach((to: go.Key) => {
+          const ld: go.ObjectData = { from, to };
+          applyAttributes(ld, scope.edgeDefaults, 'link');
+          applyAttributes(ld, attrs, 'link');
+          links.push(ld);
+        });
+      });
+    }
+  };
+
+  const parseStatements = (scope: Scope, mentioned: Array<go.Key>) => {
+    while (!isPunct(peek(), '}')) {
+      if (peek() === undefined) fail(`Expected '}'`);
+      parseStatement(scope, mentioned);
+      accept(';');
+    }
+  };
+
+  parseSubgraph = (scope: Scope) => {
+    let name: Token | null = null;
+    if (isKeyword(peek(), 'subgraph')) {
+      pos++;
+      if (!isPunct(peek(), '{')) name = expectId();
+    }
+    expect('{');
+    let groupData: NodeData | null = null;
+    if (name !== null && name.text.startsWith('cluster')) {
+      const rest = name.text.replace(/^cluster_?/, '');
+      let key: go.Key = rest === '' ? name.text : keyFromWord(rest);
+      const existing = nodes.get(JSON.stringify(key));
+      if (existing !== undefined && !existing.isGroup) key = name.text;
+      groupData = nodes.get(JSON.stringify(key)) || null;
+      if (groupData === null) {
+        groupData = { key, text: String(key), color: defaultImportColor, isGroup: true };
+        if (scope.group !== undefined) groupData.group = scope.group;
+        nodes.set(JSON.stringify(key), groupData);
+      }
+    }
+    const inner: Scope = {
+      isRoot: false,
+      group: groupData !== null ? groupData.key : scope.group,
+      groupData,
+      nodeDefaults: scope.nodeDefaults,
+      edgeDefaults: scope.edgeDefaults
+    };
+    const mentioned: Array<go.Key> = [];
+    parseStatements(inner, mentioned);
+    expect('}');
+    return mentioned;
+  };
+
+  if (isKeyword(peek(), 'strict')) pos++;
+  if (!isKeyword(peek(), 'graph') && !isKeyword(peek(), 'digraph')) fail(`Expected 'graph' or 'digraph'`);
+  pos++;
+  if (!isPunct(peek(), '{')) expectId();
+  expect('{');
+  parseStatements({ isRoot: true, group: undefined, groupData: null, nodeDefaults: [], edgeDefaults: [] }, []);
+  expect('}');
+  if (peek() !== undefined) fail('Unexpected text after the graph');
+
+  assignLinkKeys(links);
+  modelData.layout = layeredLayout(direction);
+  return { nodeDataArray: Array.from(nodes.values()), linkDataArray: links as Array<LinkData>, modelData };
+}
+
+function quote(s: string): string {
+  return '"' + s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n') + '"';
+}
+
+function formatName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !keywords.includes(name.toLowerCase()) ? name : quote(name);
+}
+
+function formatValue(val: any): string | null {
+  switch (typeof val) {
+    case 'string': return quote(val);
+    case 'number': return isNumeral(String(val)) ? String(val) : null;
+    case 'boolean': return String(val);
+    default: return null;  // objects and arrays have no DOT equivalent
+  }
+}
+
+function formatKey(key: go.Key): string {
+  return typeof key === 'number' ? String(key) : quote(String(key));
+}
+
+/**
+ * The attributes for the properties of some data that aren't written some other way.
+ */
+function otherAttributes(data: go.ObjectData, written: Array<string>): Array<string> {
+  const attrs: Array<string> = [];
+  Object.keys(data).forEach((name: string) => {
+    if (name.startsWith('__') || written.includes(name)) return;
+    const val = formatValue(data[name]);
+    if (val !== null) attrs.push(`${formatName(name)}=${val}`);
+  });
+  return attrs;
+}
+
+function nodeAttributes(nd: NodeData): Array<string> {
+  const attrs: Array<string> = [];
+  if (nd.text !== undefined) attrs.push(`label=${quote(nd.text)}`);
+  if (nd.color !== undefined) attrs.push(`fillcolor=${quote(nd.color)}`, 'style=filled');
+  if (!nd.isGroup) attrs.push(`shape=${categoryShapes[nd.category || ''] || 'box'}`);
+  if (nd.category !== undefined) attrs.push(`category=${quote(nd.category)}`);
+  return attrs.concat(otherAttributes(nd, ['key', 'text', 'color', 'category', 'group', 'isGroup']));
+}
+
+/**
+ * Write diagram contents as a Graphviz DOT digraph. Groups become clusters holding their members,
+ * and every property is written as an attribute, apart from objects such as the layout settings,
+ * of which only a layered layout's direction is kept, as the rankdir.
+ */
+export function serializeDot(data: DiagramContents<NodeData, LinkData>): string {
+  const lines = ['digraph {'];
+  const direction = layeredDirection(data.modelData);
+  if (direction !== null) lines.push(`  rankdir=${rankdirs[direction]};`);
+  otherAttributes(data.modelData, ['layout', 'rankdir']).forEach((a: string) => lines.push(`  ${a};`));
+
+  const { topLevel, members } = nestNodes(data.nodeDataArray);
+  const written = new Set<NodeData>();
+  const writeNode = (nd: NodeData, indent: string) => {
+    if (written.has(nd)) return;
+    written.add(nd);
+    if (!nd.isGroup) {
+      lines.push(`${indent}${formatKey(nd.key)} [${nodeAttributes(nd).join(', ')}];`);
+      return;
+    }
+    lines.push(`${indent}subgraph ${quote('cluster_' + nd.key)} {`);
+    nodeAttributes(nd).forEach((a: string) => lines.push(`${indent}  ${a};`));
+    (members.get(nd.key) || []).forEach((m: NodeData) => writeNode(m, indent + '  '));
+    lines.push(`${indent}}`);
+  };
+  topLevel.forEach((nd: NodeData) => writeNode(nd, '  '));
+  data.nodeDataArray.forEach((nd: NodeData) => writeNode(nd, '  '));  // any left in a cycle of groups
+
+  data.linkDataArray.forEach((ld: LinkData) => {
+    const attrs = [`key=${formatValue(ld.key)}`];
+    const text = (ld as go.ObjectData).text;
+    if (typeof text === 'string') attrs.push(`label=${quote(text)}`);
+    const all = attrs.concat(otherAttributes(ld, ['key', 'from', 'to', 'text']));
+    lines.push(`  ${formatKey(ld.from)} -> ${formatKey(ld.to)} [${all.join(', ')}];`);
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
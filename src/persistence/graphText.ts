@@ -0,0 +1,80 @@
+import * as go from 'gojs';
+
+import { LayoutSettings, normalizeLayoutSettings } from '../model/layouts';
+
+// the color of imported nodes that don't give one, since NodeData requires a color
+export const defaultImportColor = 'white';
+
+const numeral = /^-?(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Whether an unquoted word is a number, as opposed to a name.
+ */
+export function isNumeral(word: string): boolean {
+  return numeral.test(word);
+}
+
+/**
+ * The key for a node named by an unquoted word: a number if it looks like one, so numeric keys survive a round trip.
+ */
+export function keyFromWord(word: string): go.Key {
+  return isNumeral(word) ? parseFloat(word) : word;
+}
+
+/**
+ * A layered layout flowing in the given direction, in degrees as for LayeredDigraphLayout.direction,
+ * which is what both Graphviz's dot and Mermaid flowcharts draw.
+ */
+export function layeredLayout(direction: number): LayoutSettings {
+  return normalizeLayoutSettings({ kind: 'layered', params: { direction } });
+}
+
+/**
+ * The direction of the diagram's layout, if it is a layered one, or null.
+ */
+export function layeredDirection(modelData: go.ObjectData): number | null {
+  if (!modelData.layout || modelData.layout.kind !== 'layered') return null;
+  return normalizeLayoutSettings(modelData.layout).params.direction;
+}
+
+/**
+ * Give numeric keys, counting up from 1, to the links that weren't given a key in the text,
+ * or were given one that an earlier link already has.
+ */
+export function assignLinkKeys(links: Array<go.ObjectData>): void {
+  const used = new Set<go.Key>();
+  const needKeys: Array<go.ObjectData> = [];
+  links.forEach((ld: go.ObjectData) => {
+    if (ld.key === undefined || used.has(ld.key)) needKeys.push(ld);
+    else used.add(ld.key);
+  });
+  let next = 1;
+  needKeys.forEach((ld: go.ObjectData) => {
+    while (used.has(next)) next++;
+    ld.key = next++;
+  });
+}
+
+/**
+ * Order the nodes of a diagram for writing as nested blocks: each group's members follow it directly.
+ * Nodes whose group is missing are treated as top-level.
+ * @return the top-level nodes, and a map from each group's key to its members
+ */
+export function nestNodes<N extends go.ObjectData>(nodes: Array<N>): { topLevel: Array<N>; members: Map<go.Key, Array<N>> } {
+  const groups = new Set<go.Key>();
+  nodes.forEach((nd: N) => {
+    if (nd.isGroup) groups.add(nd.key);
+  });
+  const topLevel: Array<N> = [];
+  const members = new Map<go.Key, Array<N>>();
+  nodes.forEach((nd: N) => {
+    if (nd.group === undefined || !groups.has(nd.group) || nd.group === nd.key) {
+      topLevel.push(nd);
+      return;
+    }
+    const arr = members.get(nd.group) || [];
+    arr.push(nd);
+    members.set(nd.group, arr);
+  });
+  return { topLevel, members };
+}
@@ -0,0 +1,67 @@
+import { createLocalDiagramStore, createMemoryStorage, KeyValueStorage } from './localDiagramStore';
+
+describe('createLocalDiagramStore', () => {
+  it('keeps one autosave until it is cleared', () => {
+    const store = createLocalDiagramStore(createMemoryStorage());
+    expect(store.loadAutosave()).toBeNull();
+    store.saveAutosave('first');
+    store.saveAutosave('second');
+    expect(store.loadAutosave()).toMatchObject({ name: 'autosave', text: 'second' });
+    store.clearAutosave();
+    expect(store.loadAutosave()).toBeNull();
+  });
+
+  it('lists snapshots newest first, replacing and deleting them by name', () => {
+    const now = jest.spyOn(Date, 'now');
+    const store = createLocalDiagramStore(createMemoryStorage());
+    now.mockReturnValue(1000);
+    store.saveSnapshot('a', 'A');
+    now.mockReturnValue(2000);
+    store.saveSnapshot('b', 'B');
+    expect(store.listSnapshots()).toEqual([{ name: 'b', savedAt: 2000 }, { name: 'a', savedAt: 1000 }]);
+    now.mockReturnValue(3000);
+    store.saveSnapshot('a', 'A 2');
+    expect(store.listSnapshots()).toEqual([{ name: 'a', savedAt: 3000 }, { name: 'b', savedAt: 2000 }]);
+    expect(store.loadSnapshot('a')).toEqual({ name: 'a', savedAt: 3000, text: 'A 2' });
+    store.deleteSnapshot('a');
+    expect(store.listSnapshots()).toEqual([{ name: 'b', savedAt: 2000 }]);
+    expect(store.loadSnapshot('a')).toBeNull();
+    now.mockRestore();
+  });
+
+  it('keeps stores with different prefixes apart in one storage', () => {
+    const storage = createMemoryStorage();
+    const one = createLocalDiagramStore(storage, 'one');
+    const two = createLocalDiagramStore(storage, 'two');
+    one.saveAutosave('1');
+    one.saveSnapshot('s', '1');
+    expect(two.loadAutosave()).toBeNull();
+    expect(two.listSnapshots()).toEqual([]);
+  });
+
+  it('ignores corrupted entries', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('gojs-diagram:autosave', '{');
+    storage.setItem('gojs-diagram:snapshots', 'not json');
+    const store = createLocalDiagramStore(storage);
+    expect(store.loadAutosave()).toBeNull();
+    expect(store.listSnapshots()).toEqual([]);
+  });
+
+  it('passes on quota errors without losing what was already stored', () => {
+    const storage = createMemoryStorage();
+    const store = createLocalDiagramStore(storage);
+    store.saveAutosave('small');
+    const full: KeyValueStorage = {
+      ...storage,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    };
+    const fullStore = createLocalDiagramStore(full);
+    expect(() => fullStore.saveAutosave('large')).toThrow('QuotaExceededError');
+    expect(() => fullStore.saveSnapshot('s', 'large')).toThrow('QuotaExceededError');
+    expect(fullStore.loadAutosave()).toMatchObject({ text: 'small' });
+    expect(fullStore.listSnapshots()).toEqual([]);
+  });
+});
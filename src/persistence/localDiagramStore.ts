@@ -0,0 +1,94 @@
+/**
+ * The subset of the Web Storage API used to keep diagrams in the browser.
+ * window.localStorage satisfies it, and createMemoryStorage provides a stand-in for tests.
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface StoredDiagram {
+  name: string;
+  savedAt: number;  // milliseconds since the epoch
+  text: string;  // the diagram as written by serializeDiagram
+}
+
+export type SnapshotInfo = Pick<StoredDiagram, 'name' | 'savedAt'>;
+
+export interface LocalDiagramStore {
+  loadAutosave: () => StoredDiagram | null;
+  saveAutosave: (text: string) => void;
+  clearAutosave: () => void;
+  listSnapshots: () => Array<SnapshotInfo>;
+  loadSnapshot: (name: string) => StoredDiagram | null;
+  saveSnapshot: (name: string, text: string) => void;
+  deleteSnapshot: (name: string) => void;
+}
+
+/**
+ * A KeyValueStorage that only lives in memory.
+ */
+export function createMemoryStorage(): KeyValueStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => {
+      const val = items.get(key);
+      return val === undefined ? null : val;
+    },
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+}
+
+function readJson<T>(storage: KeyValueStorage, key: string, fallback: T): T {
+  const text = storage.getItem(key);
+  if (text === null) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch (ex) {
+    return fallback;  // ignore anything corrupted rather than failing on startup
+  }
+}
+
+/**
+ * Keep an autosaved diagram and a list of named snapshots in browser storage.
+ * The autosave and each snapshot are stored under their own key, and an index of snapshot names
+ * is kept so snapshots can be listed without reading every diagram.
+ * @param storage where to keep the diagrams, usually window.localStorage
+ * @param prefix prepended to every storage key, so several diagrams can share one storage
+ */
+export function createLocalDiagramStore(storage: KeyValueStorage, prefix: string = 'gojs-diagram'): LocalDiagramStore {
+  const autosaveKey = `${prefix}:autosave`;
+  const indexKey = `${prefix}:snapshots`;
+  const snapshotKey = (name: string) => `${prefix}:snapshot:${name}`;
+
+  const readIndex = (): Array<SnapshotInfo> => readJson<Array<SnapshotInfo>>(storage, indexKey, []);
+  const writeIndex = (index: Array<SnapshotInfo>) => storage.setItem(indexKey, JSON.stringify(index));
+
+  return {
+    loadAutosave: () => readJson<StoredDiagram | null>(storage, autosaveKey, null),
+    saveAutosave: (text: string) => {
+      const stored: StoredDiagram = { name: 'autosave', savedAt: Date.now(), text };
+      storage.setItem(autosaveKey, JSON.stringify(stored));
+    },
+    clearAutosave: () => storage.removeItem(autosaveKey),
+    listSnapshots: () => readIndex().sort((a: SnapshotInfo, b: SnapshotInfo) => b.savedAt - a.savedAt),
+    loadSnapshot: (name: string) => readJson<StoredDiagram | null>(storage, snapshotKey(name), null),
+    saveSnapshot: (name: string, text: string) => {
+      const stored: StoredDiagram = { name, savedAt: Date.now(), text };
+      storage.setItem(snapshotKey(name), JSON.stringify(stored));
+      const index = readIndex().filter((s: SnapshotInfo) => s.name !== name);
+      index.push({ name, savedAt: stored.savedAt });
+      writeIndex(index);
+    },
+    deleteSnapshot: (name: string) => {
+      storage.removeItem(snapshotKey(name));
+      writeIndex(readIndex().filter((s: SnapshotInfo) => s.name !== name));
+    }
+  };
+}
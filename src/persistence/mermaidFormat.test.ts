@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { LinkData, NodeData } from '../model/diagramSchema';
+import { sampleDiagram } from '../model/sampleDiagram';
+import { parseMermaid, serializeMermaid } from './mermaidFormat';
+
+const fixtures = path.join(__dirname, 'fixtures');
+
+const grouped: DiagramContents<NodeData, LinkData> = {
+  nodeDataArray: [
+    { key: 'g', text: 'Team', color: '#E3F2FD', isGroup: true },
+    { key: 'inner', text: 'Inner', color: 'white', isGroup: true, group: 'g' },
+    { key: 1, text: 'One', color: 'lightblue', group: 'g' },
+    { key: '1', text: 'String one', color: 'orange', group: 'inner' },
+    { key: 'a b', text: 'Spaced "key"', color: 'pink', category: 'decision' }
+  ],
+  linkDataArray: [
+    { key: 10, from: 1, to: '1', text: 'next' },
+    { key: 'x', from: '1', to: 'a b' },
+    { key: 11, from: 'a b', to: 1 }
+  ],
+  modelData: {}
+};
+
+/**
+ * What Mermaid keeps of a diagram, described by node text rather than by keys, which may be replaced.
+ */
+function kept(data: DiagramContents<NodeData, LinkData>) {
+  const text = new Map<unknown, string>();
+  data.nodeDataArray.forEach((nd: NodeData) => text.set(nd.key, nd.text));
+  return {
+    nodes: data.nodeDataArray
+      .map((nd: NodeData) => [nd.text, nd.color, nd.category || '', nd.isGroup || false, nd.group === undefined ? '' : text.get(nd.group)])
+      .sort(),
+    links: data.linkDataArray.map((ld: LinkData) => [text.get(ld.from), text.get(ld.to), ld.text || ''])
+  };
+}
+
+describe('Mermaid round trips', () => {
+  fs.readdirSync(fixtures).filter((file: string) => file.endsWith('.mmd')).forEach((file: string) => {
+    it(`reads back what it writes for ${file}`, () => {
+      const parsed = parseMermaid(fs.readFileSync(path.join(fixtures, file), 'utf8'));
+      expect(parsed.nodeDataArray.length).toBeGreaterThan(0);
+      expect(parseMermaid(serializeMermaid(parsed))).toEqual(parsed);
+    });
+  });
+
+  it('keeps the text and colors of the sample diagram', () => {
+    const result = parseMermaid(serializeMermaid(sampleDiagram));
+    expect(kept(result)).toEqual(kept(sampleDiagram));
+  });
+
+  it('keeps nested groups, categories and link text, giving other keys valid ids', () => {
+    const result = parseMermaid(serializeMermaid(grouped));
+    expect(kept(result)).toEqual(kept(grouped));
+    expect(parseMermaid(serializeMermaid(result))).toEqual(result);
+  });
+});
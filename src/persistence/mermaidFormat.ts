@@ -0,0 +1,354 @@
+import * as go from 'gojs';
+
+import { DiagramContents } from '../hooks/useGoModelState';
+import { LinkData, NodeData } from '../model/diagramSchema';
+import { assignLinkKeys, defaultImportColor, keyFromWord, layeredDirection, layeredLayout, nestNodes } from './graphText';
+
+interface NodeShape {
+  open: string;
+  close: RegExp;  // matched at the end of the text
+  category: string;
+}
+
+// Mermaid node shapes, longest openers first, and the categories they stand for
+const shapes: Array<NodeShape> = [
+  { open: '(((', close: /^\)\)\)/, category: 'end' },
+  { open: '((', close: /^\)\)/, category: 'start' },
+  { open: '([', close: /^\]\)/, category: 'start' },
+  { open: '[[', close: /^\]\]/, category: 'task' },
+  { open: '[(', close: /^\)\]/, category: '' },
+  { open: '[/', close: /^[/\\]\]/, category: '' },
+  { open: '[\\', close: /^[/\\]\]/, category: '' },
+  { open: '{{', close: /^\}\}/, category: '' },
+  { open: '[', close: /^\]/, category: '' },
+  { open: '(', close: /^\)/, category: '' },
+  { open: '{', close: /^\}/, category: 'decision' },
+  { open: '>', close: /^\]/, category: 'note' }
+];
+
+// how serializeMermaid draws each category
+const categoryShapes: { [category: string]: [string, string] } = {
+  '': ['[', ']'],
+  task: ['[[', ']]'],
+  start: ['((', '))'],
+  end: ['(((', ')))'],
+  decision: ['{', '}'],
+  note: ['>', ']']
+};
+
+const directions: { [name: string]: number } = { TB: 90, TD: 90, BT: 270, LR: 0, RL: 180 };
+
+const idPattern = /^[A-Za-z0-9_]+(-[A-Za-z0-9_]+)*/;
+
+const keywords = ['end', 'subgraph', 'graph', 'flowchart', 'style', 'class', 'classdef', 'click', 'linkstyle', 'direction'];
+
+/**
+ * Turn the entity codes and line breaks Mermaid uses in labels back into text.
+ */
+function decodeText(s: string): string {
+  return s
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (m: string, code: string) => String.fromCharCode(parseInt(code, 10)));
+}
+
+function encodeText(s: string): string {
+  return s.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/\n/g, '<br>');
+}
+
+/**
+ * Split a line into statements at semicolons outside of quotes.
+ */
+function splitStatements(line: string): Array<string> {
+  const statements: Array<string> = [];
+  let inQuote = false;
+  let start = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuote = !inQuote;
+    else if (line[i] === ';' && !inQuote) {
+      statements.push(line.substring(start, i));
+      start = i + 1;
+    }
+  }
+  statements.push(line.substring(start));
+  return statements.map((s: string) => s.trim()).filter((s: string) => s !== '');
+}
+
+/**
+ * Read a style such as 'fill:#f9f,stroke:#333' into a map of properties. Commas within values are escaped as '\,'.
+ */
+function parseStyle(style: string): { [name: string]: string } {
+  const props: { [name: string]: string } = {};
+  (style.match(/(\\,|[^,])+/g) || []).forEach((part: string) => {
+    const idx = part.indexOf(':');
+    if (idx > 0) props[part.substring(0, idx).trim()] = part.substring(idx + 1).trim().replace(/\\,/g, ',');
+  });
+  return props;
+}
+
+/**
+ * Parse a Mermaid flowchart into diagram contents.
+ * Nodes are keyed by their ids, with their labels as text, their shapes choosing a category,
+ * and their colors from style and classDef fills. Subgraphs become groups, and links are keyed by number.
+ * The diagram is given a layered layout in the flowchart's direction.
+ * Link styles, click handlers and kinds of arrow are ignored.
+ * @param text the Mermaid text, starting with 'flowchart' or 'graph'
+ * @throws Error describing the first syntax error found
+ */
+export function parseMermaid(text: string): DiagramContents<NodeData, LinkData> {
+  const nodes = new Map<string, NodeData>();  // by JSON encoded key
+  const links: Array<go.ObjectData> = [];
+  const styled = new Set<NodeData>();
+  const classFills: { [name: string]: string } = {};
+  const nodeClasses: Array<[NodeData, string]> = [];
+  const groups: Array<NodeData> = [];  // the subgraphs we're in, innermost last
+  let direction = -1;  // until the header is read
+  let lineNumber = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} on line ${lineNumber}.`);
+  };
+
+  const touchNode = (key: go.Key): NodeData => {
+    const id = JSON.stringify(key);
+    let nd = nodes.get(id);
+    if (nd === undefined) {
+      nd = { key, text: String(key), color: defaultImportColor };
+      nodes.set(id, nd);
+    }
+    const group = groups[groups.length - 1];
+    if (group !== undefined && group !== nd) nd.group = group.key;
+    return nd;
+  };
+
+  /**
+   * Read one node reference, such as a, a[Label], a{"Label"}:::cls, from the start of s.
+   * @return the rest of s
+   */
+  const parseNode = (s: string, mentioned: Array<go.Key>): string => {
+    const m = idPattern.exec(s);
+    if (m === null) return fail(`Expected a node id at '${s}'`);
+    const nd = touchNode(keyFromWord(m[0]));
+    mentioned.push(nd.key);
+    let rest = s.substring(m[0].length);
+    const shape = shapes.find((sh: NodeShape) => rest.startsWith(sh.open));
+    if (shape !== undefined) {
+      rest = rest.substring(shape.open.length);
+      let label: string;
+      if (rest.startsWith('"')) {
+        const end = rest.indexOf('"', 1);
+        if (end < 0) fail('Unterminated string');
+        label = rest.substring(1, end);
+        rest = rest.substring(end + 1);
+        const close = shape.close.exec(rest);
+        if (close === null) return fail(`Expected the end of the shape of ${m[0]}`);
+        rest = rest.substring(close[0].length);
+      } else {
+        let i = 0;
+        while (i < rest.length && shape.close.exec(rest.substring(i)) === null) i++;
+        if (i >= rest.length) return fail(`Expected the end of the shape of ${m[0]}`);
+        label = rest.substring(0, i);
+        rest = rest.substring(i + (shape.close.exec(rest.substring(i)) as RegExpExecArray)[0].length);
+      }
+      nd.text = decodeText(label.trim());
+      if (!nd.isGroup) {
+        if (shape.category !== '') nd.category = shape.category;
+        else delete nd.category;
+      }
+    }
+    const cls = /^:::([\w-]+)/.exec(rest);
+    if (cls !== null) {
+      nodeClasses.push([nd, cls[1]]);
+      rest = rest.substring(cls[0].length);
+    }
+    return rest.trim();
+  };
+
+  // nodes joined by &, as in a & b --> c
+  const parseNodes = (s: string, mentioned: Array<go.Key>): string => {
+    let rest = parseNode(s, mentioned);
+    while (rest.startsWith('&')) rest = parseNode(rest.substring(1).trim(), mentioned);
+    return rest;
+  };
+
+  /**
+   * Read an arrow, with its label if any, from the start of s.
+   * @return the label and the rest of s, or null if s doesn't start with an arrow
+   */
+  const parseArrow = (s: string): { label: string | undefined; rest: string } | null => {
+    const labeled = /^[<xo]?(--|==|-\.)\s+(.*?)\s*(-{2,}|={2,}|\.+-)([>xo](?![\w-])|>)?/.exec(s);
+    if (labeled !== null) {
+      return { label: decodeText(labeled[2].replace(/^"(.*)"$/, '$1')), rest: s.substring(labeled[0].length).trim() };
+    }
+    const arrow = /^[<xo]?(-{2,}|={2,}|-\.+-)([>xo](?![\w-])|>)?/.exec(s);
+    if (arrow === null) return null;
+    let rest = s.substring(arrow[0].length).trim();
+    let label: string | undefined;
+    const pipe = /^\|("([^"]*)"|[^|]*)\|/.exec(rest);
+    if (pipe !== null) {
+      label = decodeText(pipe[2] !== undefined ? pipe[2] : pipe[1].trim());
+      rest = rest.substring(pipe[0].length).trim();
+    }
+    return { label, rest };
+  };
+
+  const parseChain = (s: string) => {
+    let fromKeys: Array<go.Key> = [];
+    let rest = parseNodes(s, fromKeys);
+    while (rest !== '') {
+      const arrow = parseArrow(rest);
+      if (arrow === null) return fail(`Expected an arrow at '${rest}'`);
+      const toKeys: Array<go.Key> = [];
+      rest = parseNodes(arrow.rest, toKeys);
+      fromKeys.forEach((from: go.Key) => {
+        toKeys.forEach((to: go.Key) => {
+          const ld: go.ObjectData = { from, to };
+          if (arrow.label !== undefined && arrow.label !== '') ld.text = arrow.label;
+          links.push(ld);
+        });
+      });
+      fromKeys = toKeys;
+    }
+  };
+
+  const parseStatement = (s: string) => {
+    const word = s.split(/\s+/)[0].toLowerCase();
+    if (direction < 0) {
+      const header = /^(flowchart|graph)(\s+(\w+))?$/i.exec(s);
+      if (header === null) return fail(`Expected 'flowchart' or 'graph'`);
+      const dir = header[3] !== undefined ? directions[header[3].toUpperCase()] : 90;
+      if (dir === undefined) fail(`Unknown direction '${header[3]}'`);
+      direction = dir;
+      return;
+    }
+    switch (word) {
+      case 'subgraph': {
+        const m = /^subgraph\s+(.*)$/i.exec(s) as RegExpExecArray;
+        const titled = /^([A-Za-z0-9_-]+)\s*\[\s*("([^"]*)"|[^\]]*)\s*\]$/.exec(m[1]);
+        const key = keyFromWord(titled !== null ? titled[1] : m[1]);
+        const gd = touchNode(key);
+        gd.isGroup = true;
+        if (titled !== null) gd.text = decodeText(titled[3] !== undefined ? titled[3] : titled[2].trim());
+        groups.push(gd);
+        break;
+      }
+      case 'end':
+        if (groups.length === 0) fail(`'end' without a subgraph`);
+        groups.pop();
+        break;
+      case 'style': {
+        const m = /^style\s+([\w-]+)\s+(.*)$/i.exec(s);
+        if (m === null) return fail('Expected a node id and a style');
+        const nd = nodes.get(JSON.stringify(keyFromWord(m[1])));
+        const fill = parseStyle(m[2]).fill;
+        if (nd !== undefined && fill !== undefined) {
+          nd.color = fill;
+          styled.add(nd);
+        }
+        break;
+      }
+      case 'classdef': {
+        const m = /^classDef\s+([\w-]+)\s+(.*)$/i.exec(s);
+        if (m === null) return fail('Expected a class name and a style');
+        const fill = parseStyle(m[2]).fill;
+        if (fill !== undefined) m[1].split(',').forEach((name: string) => { classFills[name.trim()] = fill; });
+        break;
+      }
+      case 'class': {
+        const m = /^class\s+(\S+)\s+([\w-]+)$/i.exec(s);
+        if (m === null) return fail('Expected node ids and a class name');
+        m[1].split(',').forEach((id: string) => {
+          const nd = nodes.get(JSON.stringify(keyFromWord(id.trim())));
+          if (nd !== undefined) nodeClasses.push([nd, m[2]]);
+        });
+        break;
+      }
+      case 'direction': case 'click': case 'linkstyle':
+        break;
+      default:
+        parseChain(s);
+    }
+  };
+
+  text.split('\n').forEach((line: string, idx: number) => {
+    lineNumber = idx + 1;
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('%%')) return;
+    splitStatements(trimmed).forEach(parseStatement);
+  });
+  if (direction < 0) fail(`Expected 'flowchart' or 'graph'`);
+  if (groups.length > 0) fail(`Expected 'end' for subgraph ${groups[groups.length - 1].key}`);
+
+  nodeClasses.forEach(([nd, cls]: [NodeData, string]) => {
+    if (!styled.has(nd) && classFills[cls] !== undefined) nd.color = classFills[cls];
+  });
+  assignLinkKeys(links);
+  return {
+    nodeDataArray: Array.from(nodes.values()),
+    linkDataArray: links as Array<LinkData>,
+    modelData: { layout: layeredLayout(direction) }
+  };
+}
+
+/**
+ * Write diagram contents as a Mermaid flowchart, with groups as subgraphs and categories as node shapes.
+ * Mermaid has no place for other properties, so only the text, colors, groups, categories that have a shape,
+ * link text and a layered layout's direction survive a round trip. Keys that aren't valid Mermaid ids
+ * are replaced by generated ids, and links are numbered again when read back.
+ */
+export function serializeMermaid(data: DiagramContents<NodeData, LinkData>): string {
+  const direction = layeredDirection(data.modelData);
+  const dirName = Object.keys(directions).find((d: string) => directions[d] === direction && d !== 'TD') || 'TB';
+  const lines = [`flowchart ${dirName}`];
+
+  // give every node a valid, unique id
+  const ids = new Map<go.Key, string>();
+  const used = new Set<string>();
+  const valid = (key: go.Key) => {
+    const s = String(key);
+    const m = idPattern.exec(s);
+    return m !== null && m[0] === s && !keywords.includes(s.toLowerCase()) && keyFromWord(s) === key;
+  };
+  data.nodeDataArray.forEach((nd: NodeData) => {
+    if (valid(nd.key)) {
+      ids.set(nd.key, String(nd.key));
+      used.add(String(nd.key));
+    }
+  });
+  let next = 1;
+  data.nodeDataArray.forEach((nd: NodeData) => {
+    if (ids.has(nd.key)) return;
+    while (used.has(`n${next}`)) next++;
+    ids.set(nd.key, `n${next}`);
+    used.add(`n${next++}`);
+  });
+  const idOf = (key: go.Key) => ids.get(key) || String(key);
+
+  const { topLevel, members } = nestNodes(data.nodeDataArray);
+  const written = new Set<NodeData>();
+  const writeNode = (nd: NodeData, indent: string) => {
+    if (written.has(nd)) return;
+    written.add(nd);
+    const text = encodeText(nd.text !== undefined ? nd.text : String(nd.key));
+    if (!nd.isGroup) {
+      const [open, close] = categoryShapes[nd.category || ''] || categoryShapes[''];
+      lines.push(`${indent}${idOf(nd.key)}${open}"${text}"${close}`);
+      return;
+    }
+    lines.push(`${indent}subgraph ${idOf(nd.key)} ["${text}"]`);
+    (members.get(nd.key) || []).forEach((m: NodeData) => writeNode(m, indent + '  '));
+    lines.push(`${indent}end`);
+  };
+  topLevel.forEach((nd: NodeData) => writeNode(nd, '  '));
+  data.nodeDataArray.forEach((nd: NodeData) => writeNode(nd, '  '));  // any left in a cycle of groups
+
+  data.linkDataArray.forEach((ld: LinkData) => {
+    const text = (ld as go.ObjectData).text;
+    const label = typeof text === 'string' && text !== '' ? `|"${encodeText(text)}"|` : '';
+    lines.push(`  ${idOf(ld.from)} -->${label} ${idOf(ld.to)}`);
+  });
+  data.nodeDataArray.forEach((nd: NodeData) => {
+    if (nd.color) lines.push(`  style ${idOf(nd.key)} fill:${nd.color.replace(/,/g, '\\,')}`);
+  });
+  return lines.join('\n') + '\n';
+}
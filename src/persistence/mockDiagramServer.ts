@@ -0,0 +1,88 @@
+import * as go from 'gojs';
+
+import { applyIncrementalData, DiagramContents, DiagramData } from '../hooks/useGoModelState';
+import { serializeDiagram } from './diagramFile';
+import { DiagramSummary, FetchLike, HttpRequest, HttpResponse } from './diagramRepository';
+
+interface StoredDocument {
+  contents: DiagramContents;
+  updatedAt: number;
+}
+
+function respond(status: number, statusText: string, body: string = ''): HttpResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    text: () => Promise.resolve(body)
+  };
+}
+
+/**
+ * An in-process stand-in for the REST service described by createRestDiagramRepository.
+ * The returned function can be passed as its fetchFn, so the app and tests can run without a network.
+ * @param baseUrl the URL the repository is configured with
+ * @param seed diagrams to start with, by id
+ * @param latency milliseconds to wait before responding, to make loading and saving states visible
+ */
+export function createMockDiagramServer(baseUrl: string, seed: { [id: string]: DiagramContents } = {}, latency: number = 0): FetchLike {
+  const documents = new Map<string, StoredDocument>();
+  Object.keys(seed).forEach((id: string) => {
+    documents.set(id, { contents: seed[id], updatedAt: Date.now() });
+  });
+
+  const handle = (url: string, init: HttpRequest): HttpResponse => {
+    if (!url.startsWith(`${baseUrl}/diagrams`)) return respond(404, 'Not Found');
+    const rest = url.substring(`${baseUrl}/diagrams`.length);
+    const method = init.method || 'GET';
+    if (rest === '' || rest === '/') {
+      if (method !== 'GET') return respond(405, 'Method Not Allowed');
+      const summaries: Array<DiagramSummary> = [];
+      documents.forEach((doc: StoredDocument, id: string) => summaries.push({ id, updatedAt: doc.updatedAt }));
+      return respond(200, 'OK', JSON.stringify(summaries));
+    }
+
+    const id = decodeURIComponent(rest.substring(1));
+    const doc = documents.get(id);
+    switch (method) {
+      case 'GET': {
+        if (!doc) return respond(404, 'Not Found');
+        return respond(200, 'OK', serializeDiagram(doc.contents));
+      }
+      case 'PATCH': {
+        let changes: Array<go.IncrementalData>;
+        try {
+          changes = JSON.parse(init.body || '').changes;
+        } catch (ex) {
+          return respond(400, 'Bad Request');
+        }
+        if (!Array.isArray(changes)) return respond(400, 'Bad Request');
+        const data: DiagramData = {
+          ...(doc ? doc.contents : { nodeDataArray: [], linkDataArray: [], modelData: {} }),
+          selectedData: [],
+          skipsDiagramUpdate: false
+        };
+        // copy the arrays, since applyIncrementalData modifies them in place
+        data.nodeDataArray = data.nodeDataArray.slice();
+        data.linkDataArray = data.linkDataArray.slice();
+        changes.forEach((obj: go.IncrementalData) => applyIncrementalData(data, obj));
+        documents.set(id, {
+          contents: { nodeDataArray: data.nodeDataArray, linkDataArray: data.linkDataArray, modelData: data.modelData },
+          updatedAt: Date.now()
+        });
+        return respond(204, 'No Content');
+      }
+      case 'DELETE': {
+        if (!doc) return respond(404, 'Not Found');
+        documents.delete(id);
+        return respond(204, 'No Content');
+      }
+      default: return respond(405, 'Method Not Allowed');
+    }
+  };
+
+  return (url: string, init: HttpRequest = {}) =>
+    new Promise<HttpResponse>((resolve) => {
+      setTimeout(() => resolve(handle(url, init)), latency);
+    });
+}
@@ -0,0 +1,269 @@
+import * as go from 'gojs';
+
+import { DataSchema, PropertySchema } from '../model/schema';
+
+/**
+ * Everything that differs between kinds of node: how they look, what a new one starts as,
+ * and which extra fields the inspector offers for them.
+ */
+export interface NodeCategory {
+  label: string;  // shown in the palette
+  archetype: go.ObjectData;  // the data of a new node dragged in from the palette, without a key
+  fields?: { [name: string]: PropertySchema };  // in addition to the common node properties
+  isGroup?: boolean;
+  makeTemplate: () => go.Part;
+}
+
+/**
+ * Node categories keyed by the data's category property. The '' entry is used for nodes without a category.
+ */
+export type CategoryRegistry = { [category: string]: NodeCategory };
+
+const $ = go.GraphObject.make;
+
+function locationBinding() {
+  return new go.Binding('location', 'loc', go.Point.parse).makeTwoWay(go.Point.stringify);
+}
+
+function textBlock(margin: number = 8) {
+  return $(go.TextBlock,
+    { margin: margin, editable: true, font: '400 .875rem Roboto, sans-serif' },
+    new go.Binding('text').makeTwoWay());
+}
+
+// the outline of parts that match a search, which sets Part.isHighlighted
+const highlightColor = '#FF6F00';  // Amber 900
+
+/**
+ * Bindings that outline a shape while its part is highlighted, and otherwise give it its usual stroke.
+ */
+export function highlightBindings(stroke: string, strokeWidth: number): Array<go.Binding> {
+  return [
+    new go.Binding('stroke', 'isHighlighted', (h: boolean) => h ? highlightColor : stroke).ofObject(),
+    new go.Binding('strokeWidth', 'isHighlighted', (h: boolean) => h ? Math.max(strokeWidth, 3) : strokeWidth).ofObject()
+  ];
+}
+
+// the node's main shape is its port, so links can be drawn from and to anywhere on it
+const portProperties = { portId: '', fromLinkable: true, toLinkable: true, cursor: 'pointer' };
+
+function makeBasicTemplate(): go.Part {
+  return $(go.Node, 'Auto',  // the Shape will go around the TextBlock
+    locationBinding(),
+    $(go.Shape, 'RoundedRectangle',
+      { name: 'SHAPE', fill: 'white', strokeWidth: 0 },
+      portProperties,
+      ...highlightBindings('black', 0),
+      // Shape.fill is bound to Node.data.color
+      new go.Binding('fill', 'color')),
+    textBlock());
+}
+
+function makeTaskTemplate(): go.Part {
+  return $(go.Node, 'Auto',
+    locationBinding(),
+    $(go.Shape, 'RoundedRectangle',
+      { name: 'SHAPE', fill: 'white', stroke: '#757575' },
+      portProperties,
+      ...highlightBindings('#757575', 1),
+      new go.Binding('fill', 'color')),
+    $(go.Panel, 'Vertical',
+      { margin: 8 },
+      textBlock(0),
+      $(go.TextBlock,
+        { font: '300 .75rem Roboto, sans-serif', visible: false },
+        new go.Binding('text', 'assignee'),
+        new go.Binding('visible', 'assignee', (a: string) => !!a)),
+      $(go.TextBlock,
+        { font: '300 .75rem Roboto, sans-serif', visible: false },
+        new go.Binding('text', 'duration', (d: number) => `${d} day${d === 1 ? '' : 's'}`),
+        new go.Binding('visible', 'duration', (d: number) => typeof d === 'number'))));
+}
+
+function makeDecisionTemplate(): go.Part {
+  return $(go.Node, 'Auto',
+    locationBinding(),
+    $(go.Shape, 'Diamond',
+      { name: 'SHAPE', fill: 'white', stroke: '#757575' },
+      portProperties,
+      ...highlightBindings('#757575', 1),
+      new go.Binding('fill', 'color')),
+    textBlock(12));
+}
+
+function makeTerminalTemplate(isStart: boolean): () => go.Part {
+  return () => $(go.Node, 'Auto',
+    locationBinding(),
+    $(go.Shape, 'Circle',
+      { name: 'SHAPE', fill: 'white', stroke: '#424242', strokeWidth: isStart ? 1 : 3 },
+      portProperties,
+      // nothing leads into the start, and nothing leads out of the end
+      { fromLinkable: isStart, toLinkable: !isStart },
+      ...highlightBindings('#424242', isStart ? 1 : 3),
+      new go.Binding('fill', 'color')),
+    textBlock());
+}
+
+function makeNoteTemplate(): go.Part {
+  return $(go.Node, 'Auto',
+    locationBinding(),
+    $(go.Shape, 'File',
+      { name: 'SHAPE', fill: '#FFF59D', stroke: '#BDBDBD' },
+      ...highlightBindings('#BDBDBD', 1),
+      new go.Binding('fill', 'color')),
+    $(go.TextBlock,
+      { margin: 8, maxSize: new go.Size(160, NaN), wrap: go.TextBlock.WrapFit, editable: true, font: 'italic 300 .875rem Roboto, sans-serif' },
+      new go.Binding('text').makeTwoWay()));
+}
+
+/**
+ * Move the dropped selection into a group, or out to the top level if dropped on the diagram background.
+ * The model records the change to each node's group key, so membership is synced like any other property.
+ * @param e the drop's input event
+ * @param grp the group dropped onto, or null for the background
+ */
+export function finishDrop(e: go.InputEvent, grp: go.Group | null): void {
+  const diagram = e.diagram;
+  const ok = grp !== null
+    ? grp.addMembers(diagram.selection, true)
+    : diagram.commandHandler.addTopLevelParts(diagram.selection, true);
+  if (!ok) diagram.currentTool.doCancel();
+}
+
+function highlightGroup(grp: go.GraphObject, show: boolean): void {
+  const shape = (grp as go.Group).findObject('SHAPE') as go.Shape | null;
+  if (shape !== null) shape.stroke = show ? '#1E88E5' : (grp as go.Group).isHighlighted ? highlightColor : '#9E9E9E';
+}
+
+function makeGroupTemplate(): go.Part {
+  return $(go.Group, 'Vertical',
+    {
+      ungroupable: true,
+      computesBoundsAfterDrag: true,  // so the group doesn't grow while its members are dragged out of it
+      handlesDragDropForMembers: true,  // dropping on a member adds to this group
+      mouseDragEnter: (e: go.InputEvent, grp: go.GraphObject) => highlightGroup(grp, true),
+      mouseDragLeave: (e: go.InputEvent, grp: go.GraphObject) => highlightGroup(grp, false),
+      mouseDrop: (e: go.InputEvent, grp: go.GraphObject) => {
+        highlightGroup(grp, false);
+        finishDrop(e, grp as go.Group);
+      }
+    },
+    new go.Binding('isSubGraphExpanded', 'expanded').makeTwoWay(),
+    $(go.Panel, 'Horizontal',
+      { alignment: go.Spot.Left },
+      $('SubGraphExpanderButton', { margin: new go.Margin(0, 4, 0, 0) }),
+      $(go.TextBlock,
+        { editable: true, font: '500 .875rem Roboto, sans-serif' },
+        new go.Binding('text').makeTwoWay())),
+    $(go.Panel, 'Auto',
+      $(go.Shape, 'Rectangle',
+        { name: 'SHAPE', fill: 'rgba(0, 0, 0, 0.03)', stroke: '#9E9E9E' },
+        portProperties,
+        ...highlightBindings('#9E9E9E', 1),
+        new go.Binding('fill', 'color')),
+      $(go.Placeholder, { padding: 10, minSize: new go.Size(80, 40) })));
+}
+
+export const defaultCategoryRegistry: CategoryRegistry = {
+  '': {
+    label: 'Node',
+    archetype: { text: 'new node', color: 'lightblue' },
+    makeTemplate: makeBasicTemplate
+  },
+  start: {
+    label: 'Start',
+    archetype: { category: 'start', text: 'Start', color: 'lightgreen' },
+    makeTemplate: makeTerminalTemplate(true)
+  },
+  end: {
+    label: 'End',
+    archetype: { category: 'end', text: 'End', color: 'pink' },
+    makeTemplate: makeTerminalTemplate(false)
+  },
+  task: {
+    label: 'Task',
+    archetype: { category: 'task', text: 'Task', color: 'white', assignee: '', duration: 1 },
+    fields: {
+      assignee: { type: 'string' },
+      duration: { type: 'number' }
+    },
+    makeTemplate: makeTaskTemplate
+  },
+  decision: {
+    label: 'Decision',
+    archetype: { category: 'decision', text: 'Decision?', color: 'lightyellow', condition: '' },
+    fields: {
+      condition: { type: 'string' }
+    },
+    makeTemplate: makeDecisionTemplate
+  },
+  note: {
+    label: 'Note',
+    archetype: { category: 'note', text: 'Note', color: '#FFF59D' },
+    makeTemplate: makeNoteTemplate
+  },
+  group: {
+    label: 'Group',
+    archetype: { category: 'group', text: 'Group', color: 'rgba(0, 0, 0, 0.03)', isGroup: true, expanded: true },
+    isGroup: true,
+    makeTemplate: makeGroupTemplate
+  }
+};
+
+/**
+ * Give a diagram or palette one template per category. Groups without a category use the first group category.
+ */
+export function applyTemplates(diagram: go.Diagram, registry: CategoryRegistry): void {
+  const nodeTemplateMap = new go.Map<string, go.Node>();
+  const groupTemplateMap = new go.Map<string, go.Group>();
+  Object.keys(registry).forEach((category) => {
+    const entry = registry[category];
+    if (entry.isGroup) {
+      const template = entry.makeTemplate() as go.Group;
+      groupTemplateMap.add(category, template);
+      if (!groupTemplateMap.has('')) groupTemplateMap.add('', entry.makeTemplate() as go.Group);
+    } else {
+      nodeTemplateMap.add(category, entry.makeTemplate() as go.Node);
+    }
+  });
+  diagram.nodeTemplateMap = nodeTemplateMap;
+  diagram.groupTemplateMap = groupTemplateMap;
+}
+
+/**
+ * The data for new groups made by grouping the selection (Ctrl-G): that of the first group category.
+ */
+export function groupArchetype(registry: CategoryRegistry): go.ObjectData {
+  const category = Object.keys(registry).find((c) => registry[c].isGroup);
+  return category === undefined ? { isGroup: true } : { ...registry[category].archetype };
+}
+
+/**
+ * The data for a palette holding one of each category.
+ * The keys are only used within the palette, since the diagram gives dropped copies keys of its own.
+ */
+export function paletteData(registry: CategoryRegistry): Array<go.ObjectData> {
+  return Object.keys(registry).map((category, idx) => ({ ...registry[category].archetype, key: idx + 1 }));
+}
+
+/**
+ * The schema for nodes of one category: the common node properties plus the category's own fields.
+ */
+export function schemaForCategory(registry: CategoryRegistry, nodeSchema: DataSchema, category: string): DataSchema {
+  const entry = registry[category];
+  if (!entry || !entry.fields) return nodeSchema;
+  return { ...nodeSchema, properties: { ...nodeSchema.properties, ...entry.fields } };
+}
+
+/**
+ * The schema for nodes of any category: the common node properties plus every category's own fields,
+ * for checking data before its category is known, such as a whole diagram being loaded.
+ */
+export function schemaForAnyCategory(registry: CategoryRegistry, nodeSchema: DataSchema): DataSchema {
+  let properties = nodeSchema.properties;
+  Object.keys(registry).forEach((category: string) => {
+    const fields = registry[category].fields;
+    if (fields) properties = { ...properties, ...fields };
+  });
+  return { ...nodeSchema, properties };
+}
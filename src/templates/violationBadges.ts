@@ -0,0 +1,65 @@
+import * as go from 'gojs';
+
+import { RuleViolation } from '../model/rules';
+
+const $ = go.GraphObject.make;
+
+// the name of the adornment holding a part's badge
+const badgeCategory = 'RuleViolation';
+
+const badgeColors = {
+  error: '#C62828',  // Red 800
+  warning: '#F9A825'  // Yellow 800
+};
+
+function makeBadge(violations: Array<RuleViolation>, placement: go.ObjectData): go.Panel {
+  const isError = violations.some((v: RuleViolation) => v.severity === 'error');
+  return $(go.Panel, 'Auto',
+    {
+      ...placement,
+      toolTip: $('ToolTip',
+        $(go.TextBlock,
+          { margin: 4, font: '300 .75rem Roboto, sans-serif' },
+          violations.map((v: RuleViolation) => v.message).join('\n')))
+    },
+    $(go.Shape, 'Circle', { fill: isError ? badgeColors.error : badgeColors.warning, stroke: 'white', desiredSize: new go.Size(16, 16) }),
+    $(go.TextBlock, '!', { stroke: 'white', font: 'bold .75rem Roboto, sans-serif' }));
+}
+
+function makeAdornment(part: go.Part, violations: Array<RuleViolation>): go.Adornment {
+  if (part instanceof go.Link) {
+    // a badge halfway along the link
+    return $(go.Adornment, 'Link',
+      { layerName: 'Tool' },
+      $(go.Shape, { isPanelMain: true, stroke: null }),
+      makeBadge(violations, { segmentIndex: NaN, segmentFraction: 0.5 }));
+  }
+  return $(go.Adornment, 'Spot',
+    { layerName: 'Tool' },
+    $(go.Placeholder),
+    makeBadge(violations, { alignment: go.Spot.TopRight }));
+}
+
+/**
+ * Show a badge on each node and link breaking a rule, red for errors and yellow for warnings only,
+ * with the messages as its tooltip. Badges are adornments, so they aren't part of the model and aren't undone or shared.
+ * Badges from a previous call are removed.
+ */
+export function showViolationBadges(diagram: go.Diagram, violations: Array<RuleViolation>): void {
+  const byPart = new Map<go.Part, Array<RuleViolation>>();
+  violations.forEach((v: RuleViolation) => {
+    const part = v.kind === 'node' ? diagram.findNodeForKey(v.key) : diagram.findLinkForKey(v.key);
+    if (part === null) return;
+    byPart.set(part, [...(byPart.get(part) || []), v]);
+  });
+  const clear = (part: go.Part) => {
+    if (!byPart.has(part)) part.removeAdornment(badgeCategory);
+  };
+  diagram.nodes.each(clear);
+  diagram.links.each(clear);
+  byPart.forEach((vs: Array<RuleViolation>, part: go.Part) => {
+    const adornment = makeAdornment(part, vs);
+    adornment.adornedObject = part;
+    part.addAdornment(badgeCategory, adornment);
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Offer a Blob to the user as a file download.
+ * @param filename the suggested file name
+ * @param blob the file contents
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Offer some text to the user as a file download.
+ * @param filename the suggested file name
+ * @param text the file contents
+ * @param mimeType the type of the contents, plain text by default
+ */
+export function downloadText(filename: string, text: string, mimeType: string = 'text/plain'): void {
+  downloadBlob(filename, new Blob([text], { type: mimeType }));
+}
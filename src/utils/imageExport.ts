@@ -0,0 +1,103 @@
+import * as go from 'gojs';
+
+import { downloadBlob } from './download';
+
+export type ImageFormat = 'svg' | 'png' | 'jpeg';
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  scale: number;  // image pixels per document unit
+  background: string;  // a CSS color, or '' for transparent, which JPEG doesn't support
+  margin: number;  // in image pixels, around the diagram
+  selectionOnly: boolean;
+  area: 'document' | 'viewport';  // the whole diagram or just what is in view
+}
+
+export const defaultExportOptions: ImageExportOptions = {
+  format: 'png',
+  scale: 1,
+  background: '',
+  margin: 10,
+  selectionOnly: false,
+  area: 'document'
+};
+
+/**
+ * Settings for an image to be placed in a PDF or printed: 300 dpi, taking CSS pixels to be 96 dpi, on white.
+ */
+export const printExportOptions: ImageExportOptions = {
+  ...defaultExportOptions,
+  scale: 300 / 96,
+  background: 'white'
+};
+
+// browsers fail to make canvases much larger than this
+const maxImageSide = 8192;
+
+const mimeTypes: { [format in ImageFormat]: string } = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpeg: 'image/jpeg'
+};
+
+/**
+ * Translate export options into the options of Diagram.makeSvg and Diagram.makeImageData.
+ * @throws if only the selection is wanted and nothing is selected
+ */
+export function rendererOptions(diagram: go.Diagram, options: ImageExportOptions): go.ImageRendererOptions {
+  const result: go.ImageRendererOptions = { scale: options.scale, padding: options.margin };
+  if (options.background !== '') result.background = options.background;
+  else if (options.format === 'jpeg') result.background = 'white';  // rather than black
+  if (options.selectionOnly) {
+    if (diagram.selection.count === 0) throw new Error('Nothing is selected.');
+    result.parts = diagram.selection;
+  }
+  if (options.area === 'viewport') {
+    const vb = diagram.viewportBounds;
+    result.position = vb.position;
+    result.size = new go.Size(vb.width * options.scale + 2 * options.margin, vb.height * options.scale + 2 * options.margin);
+  }
+  if (options.format !== 'svg') {
+    result.type = mimeTypes[options.format];
+    result.maxSize = new go.Size(maxImageSide, maxImageSide);
+  }
+  return result;
+}
+
+/**
+ * Render a diagram as the text of an SVG file.
+ */
+export function exportSvg(diagram: go.Diagram, options: ImageExportOptions): string {
+  const svg = diagram.makeSvg(rendererOptions(diagram, { ...options, format: 'svg' }));
+  return new XMLSerializer().serializeToString(svg);
+}
+
+/**
+ * Render a diagram as an image file in any of the export formats.
+ * Images wider or taller than 8192 pixels are scaled down to fit.
+ */
+export function exportImageBlob(diagram: go.Diagram, options: ImageExportOptions): Promise<Blob> {
+  if (options.format === 'svg') return Promise.resolve(new Blob([exportSvg(diagram, options)], { type: mimeTypes.svg }));
+  const rendered = rendererOptions(diagram, options);
+  return new Promise<Blob>((resolve, reject) => {
+    diagram.makeImageData({
+      ...rendered,
+      returnType: 'blob',
+      callback: (blob: Blob | null) => {
+        if (blob) resolve(blob);
+        else reject(new Error('The image could not be made.'));
+      }
+    });
+  });
+}
+
+/**
+ * Render a diagram and offer it to the user as a file download, named for the format.
+ * @param diagram the diagram to export
+ * @param options what to export and how
+ * @param basename the file name without its extension
+ */
+export async function downloadDiagramImage(diagram: go.Diagram, options: ImageExportOptions, basename: string = 'diagram'): Promise<void> {
+  const blob = await exportImageBlob(diagram, options);
+  downloadBlob(`${basename}.${options.format === 'jpeg' ? 'jpg' : options.format}`, blob);
+}